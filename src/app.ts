@@ -5,10 +5,18 @@ import config from './config';
 import logger from './utils/logger';
 import redisClient from './database/redis';
 import blockchainService from './services/blockchainService';
+import leaderElection from './services/leaderElection';
+import issuerService from './services/issuerService';
+import categoryService from './services/categoryService';
+import reconciliationService from './services/reconciliationService';
 
 // Routes
 import issuerRoutes from './routes/issuerRoutes';
 import healthRoutes from './routes/healthRoutes';
+import deadLetterRoutes from './routes/deadLetterRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import categoryAdminRoutes from './routes/categoryAdminRoutes';
+import reconciliationRoutes from './routes/reconciliationRoutes';
 
 // Middleware
 import {
@@ -68,6 +76,10 @@ export class App {
     // API routes with prefix
     this.app.use(`${config.api.prefix}/issuers`, issuerRoutes);
     this.app.use(`${config.api.prefix}/issuer`, issuerRoutes);
+    this.app.use(`${config.api.prefix}/categories`, categoryRoutes);
+    this.app.use(`${config.api.prefix}/admin/dead-letters`, deadLetterRoutes);
+    this.app.use(`${config.api.prefix}/admin/categories`, categoryAdminRoutes);
+    this.app.use(`${config.api.prefix}/admin/reconciliation`, reconciliationRoutes);
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -111,6 +123,10 @@ export class App {
           });
         }
 
+        // Hand indexer leadership to another replica
+        await leaderElection.stop();
+        reconciliationService.stop();
+
         // Stop blockchain event listeners
         await blockchainService.stopListening();
         logger.info('Blockchain event listeners stopped');
@@ -152,10 +168,7 @@ export class App {
 
   public async start(): Promise<void> {
     try {
-      // Initialize services
-      await this.initializeServices();
-
-      // Start HTTP server
+      // Start HTTP server first so health probes can report catch-up progress
       this.server = this.app.listen(config.api.port, () => {
         logger.info(`Server started on port ${config.api.port}`);
         logger.info(`API available at http://localhost:${config.api.port}${config.api.prefix}`);
@@ -172,6 +185,9 @@ export class App {
         process.exit(1);
       });
 
+      // Initialize services (readiness stays false until catch-up completes)
+      await this.initializeServices();
+
     } catch (error) {
       logger.error('Failed to start application:', error);
       process.exit(1);
@@ -185,13 +201,31 @@ export class App {
       await redisClient.connect();
       logger.info('Redis connected successfully');
 
+      // Rebuild issuer indexes written by earlier versions
+      await issuerService.migrateIndexes();
+
+      // Seed category labels without overwriting entries edited through the admin API
+      if (config.categories.seedFile) {
+        await categoryService.seedFromFile(config.categories.seedFile);
+      }
+
       // Initialize blockchain service
       logger.info('Initializing blockchain service...');
       await blockchainService.initialize();
       logger.info('Blockchain service initialized successfully');
 
-      // Start event monitoring with fallback strategy
-      await this.startEventMonitoring();
+      // Only the replica holding the leader lease runs the indexer; all replicas serve the API
+      await leaderElection.start({
+        onElected: () => this.startIndexing(),
+        onDemoted: async () => {
+          reconciliationService.stop();
+          await blockchainService.stopIndexing();
+        },
+        onLost: () => {
+          reconciliationService.stop();
+          blockchainService.interruptCatchUp();
+        }
+      });
 
     } catch (error) {
       logger.error('Failed to initialize services:', error);
@@ -199,6 +233,46 @@ export class App {
     }
   }
 
+  // Each step checks the lease first, so a demotion mid-start does not start anything more
+  private async startIndexing(): Promise<void> {
+    // Reconnect providers in case indexing ran on this instance before
+    await blockchainService.initialize();
+
+    // Index everything from START_BLOCK (or the stored cursor) up to head before going live
+    if (!this.stillLeader('catch-up')) {
+      return;
+    }
+    logger.info('Catching up with the chain...');
+    await blockchainService.catchUp();
+
+    // Start event monitoring with fallback strategy
+    if (!this.stillLeader('event monitoring')) {
+      return;
+    }
+    await this.startEventMonitoring();
+
+    // Retry events that previously failed to process
+    if (!this.stillLeader('dead-letter retries')) {
+      return;
+    }
+    blockchainService.startDeadLetterRetries();
+
+    // Periodically compare every issuer with the contract
+    if (!this.stillLeader('reconciliation')) {
+      return;
+    }
+    await reconciliationService.start();
+  }
+
+  private stillLeader(step: string): boolean {
+    if (leaderElection.isLeader()) {
+      return true;
+    }
+
+    logger.warn(`Leadership lost while starting the indexer, skipping ${step}`);
+    return false;
+  }
+
   private async startEventMonitoring(): Promise<void> {
     try {
       // Check if WebSocket is available
@@ -210,6 +284,17 @@ export class App {
           // Try WebSocket subscription with retry mechanism first
           await blockchainService.subscribeWithRetry();
           logger.info('Real-time event subscription started successfully');
+
+          // Index the blocks between the catch-up target and the subscription
+          await blockchainService.fillSubscriptionGap();
+
+          // Hybrid mode: a slower sweep verifies coverage and advances the shared cursor
+          if (config.blockchain.hybridMode) {
+            await blockchainService.startPolling();
+            logger.info('Reconciliation sweep started', {
+              interval: config.blockchain.reconciliationInterval
+            });
+          }
         } catch (error) {
           logger.warn('WebSocket subscription failed, falling back to polling:', error);
           await this.startPollingFallback();
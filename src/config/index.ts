@@ -7,9 +7,20 @@ dotenv.config();
 export interface Config {
   blockchain: {
     rpcUrl: string;
+    rpcUrls: string[];
+    rpcCrossCheck: boolean;
+    rpcMaxBlockLag: number;
+    rpcCooldown: number;
+    rpcFailureThreshold: number;
     wssUrl?: string;
     contractAddress: string;
     startBlock: number;
+    maxReorgDepth: number;
+    confirmations: number;
+    unconfirmedOverlay: boolean;
+    maxBlockRange: number;
+    hybridMode: boolean;
+    reconciliationInterval: number;
   };
   redis: {
     host: string;
@@ -20,6 +31,9 @@ export interface Config {
   api: {
     port: number;
     prefix: string;
+    batchLookupLimit: number;
+    // Bearer token for mutating admin routes; they are refused while unset
+    adminToken?: string;
   };
   logging: {
     level: string;
@@ -30,14 +44,53 @@ export interface Config {
     retryAttempts: number;
     retryDelay: number;
   };
+  leaderElection: {
+    enabled: boolean;
+    leaseTtl: number;
+    renewInterval: number;
+    instanceId?: string;
+  };
+  deadLetter: {
+    maxAttempts: number;
+    retryBaseDelay: number;
+    retryMaxDelay: number;
+    retryInterval: number;
+  };
+  categories: {
+    seedFile?: string;
+  };
+  reconciliation: {
+    enabled: boolean;
+    interval: number;
+    autoRepair: boolean;
+    delayBetweenIssuers: number;
+    historySize: number;
+  };
 }
 
+const rpcUrl = process.env.RPC_URL || 'https://humanity-testnet.g.alchemy.com/public';
+const rpcUrls = (process.env.RPC_URLS || '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(url => url !== '');
+
 const config: Config = {
   blockchain: {
-    rpcUrl: process.env.RPC_URL || 'https://humanity-testnet.g.alchemy.com/public',
+    rpcUrl,
+    rpcUrls: rpcUrls.length > 0 ? rpcUrls : [rpcUrl],
+    rpcCrossCheck: process.env.RPC_CROSS_CHECK === 'true',
+    rpcMaxBlockLag: parseInt(process.env.RPC_MAX_BLOCK_LAG || '5', 10),
+    rpcCooldown: parseInt(process.env.RPC_COOLDOWN || '30000', 10),
+    rpcFailureThreshold: parseInt(process.env.RPC_FAILURE_THRESHOLD || '3', 10),
     wssUrl: process.env.WSS_URL || undefined,
     contractAddress: process.env.CONTRACT_ADDRESS || '',
     startBlock: parseInt(process.env.START_BLOCK || '0', 10),
+    maxReorgDepth: parseInt(process.env.MAX_REORG_DEPTH || '64', 10),
+    confirmations: parseInt(process.env.CONFIRMATIONS || '0', 10),
+    unconfirmedOverlay: process.env.UNCONFIRMED_OVERLAY !== 'false',
+    maxBlockRange: parseInt(process.env.MAX_BLOCK_RANGE || '2000', 10),
+    hybridMode: process.env.HYBRID_MODE !== 'false',
+    reconciliationInterval: parseInt(process.env.RECONCILIATION_INTERVAL || '60000', 10),
   },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -48,6 +101,8 @@ const config: Config = {
   api: {
     port: parseInt(process.env.PORT || '3000', 10),
     prefix: process.env.API_PREFIX || '/api/v1',
+    batchLookupLimit: parseInt(process.env.BATCH_LOOKUP_LIMIT || '100', 10),
+    adminToken: process.env.ADMIN_TOKEN && process.env.ADMIN_TOKEN.trim() !== '' ? process.env.ADMIN_TOKEN.trim() : undefined,
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -58,6 +113,28 @@ const config: Config = {
     retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || '3', 10),
     retryDelay: parseInt(process.env.RETRY_DELAY || '1000', 10),
   },
+  leaderElection: {
+    enabled: process.env.LEADER_ELECTION !== 'false',
+    leaseTtl: parseInt(process.env.LEADER_LEASE_TTL || '15000', 10),
+    renewInterval: parseInt(process.env.LEADER_RENEW_INTERVAL || '5000', 10),
+    instanceId: process.env.INSTANCE_ID || undefined,
+  },
+  deadLetter: {
+    maxAttempts: parseInt(process.env.DLQ_MAX_ATTEMPTS || '8', 10),
+    retryBaseDelay: parseInt(process.env.DLQ_RETRY_BASE_DELAY || '30000', 10),
+    retryMaxDelay: parseInt(process.env.DLQ_RETRY_MAX_DELAY || '3600000', 10),
+    retryInterval: parseInt(process.env.DLQ_RETRY_INTERVAL || '15000', 10),
+  },
+  categories: {
+    seedFile: process.env.CATEGORIES_FILE || undefined,
+  },
+  reconciliation: {
+    enabled: process.env.FULL_RECONCILIATION !== 'false',
+    interval: parseInt(process.env.FULL_RECONCILIATION_INTERVAL || '21600000', 10),
+    autoRepair: process.env.FULL_RECONCILIATION_AUTO_REPAIR === 'true',
+    delayBetweenIssuers: parseInt(process.env.FULL_RECONCILIATION_DELAY || '50', 10),
+    historySize: parseInt(process.env.FULL_RECONCILIATION_HISTORY || '20', 10),
+  },
 };
 
 // Validation
@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import categoryService from '../services/categoryService';
+import issuerService from '../services/issuerService';
+import { CategoryStatusCounts, CategorySummary } from '../types/category';
+import { IssuerStatus } from '../types/issuer';
+import logger from '../utils/logger';
+
+export class CategoryController {
+  // GET /categories - List registered and in-use categories with issuer counts
+  async getCategories(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const [registered, counts] = await Promise.all([
+        categoryService.list(),
+        issuerService.getCategoryStatusCounts()
+      ]);
+
+      const ids = [...new Set([...registered.map(category => category.id), ...counts.keys()])];
+      const decoded = await categoryService.decodeMany(ids);
+
+      const categories: CategorySummary[] = decoded
+        .map(category => ({
+          ...category,
+          counts: counts.get(category.id) || this.emptyCounts()
+        }))
+        .sort((a, b) => b.counts.total - a.counts.total || (a.label || a.id).localeCompare(b.label || b.id));
+
+      res.json({
+        success: true,
+        data: categories,
+        meta: {
+          total: categories.length
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getCategories:', error);
+      next(error);
+    }
+  }
+
+  // GET /categories/:id - Get a single category with issuer counts
+  async getCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const [registered, counts] = await Promise.all([
+        categoryService.get(id),
+        issuerService.getCategoryStatusCounts()
+      ]);
+
+      if (!registered && !counts.has(id)) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Category ${id} not found`
+        });
+        return;
+      }
+
+      const [category] = await categoryService.decodeMany([id]);
+
+      res.json({
+        success: true,
+        data: {
+          ...category,
+          counts: counts.get(id) || this.emptyCounts()
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getCategory:', error);
+      next(error);
+    }
+  }
+
+  // PUT /admin/categories/:id - Register or relabel a category
+  async upsertCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { label, description } = req.body as { label: string; description?: string };
+
+      const category = await categoryService.upsert(id, {
+        label,
+        description: description || undefined
+      });
+
+      res.json({
+        success: true,
+        data: category
+      });
+    } catch (error) {
+      logger.error('Error in upsertCategory:', error);
+      next(error);
+    }
+  }
+
+  // DELETE /admin/categories/:id - Remove a category from the registry
+  async deleteCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const removed = await categoryService.remove(id);
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Category ${id} not found`
+        });
+        return;
+      }
+
+      logger.warn('Category removed from registry', { id });
+
+      res.json({
+        success: true,
+        data: { id, removed: true }
+      });
+    } catch (error) {
+      logger.error('Error in deleteCategory:', error);
+      next(error);
+    }
+  }
+
+  private emptyCounts(): CategoryStatusCounts {
+    const counts = Object.fromEntries(
+      Object.values(IssuerStatus).map(status => [status, 0])
+    ) as CategoryStatusCounts;
+    counts.total = 0;
+    return counts;
+  }
+}
+
+export default new CategoryController();
@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import deadLetterService from '../services/deadLetterService';
+import blockchainService from '../services/blockchainService';
+import leaderElection from '../services/leaderElection';
+import { DeadLetterStatus } from '../types/deadLetter';
+import logger from '../utils/logger';
+
+export class DeadLetterController {
+  // GET /admin/dead-letters - List failed events
+  async getDeadLetters(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, limit = 50, offset = 0 } = req.query as {
+        status?: DeadLetterStatus;
+        limit?: number;
+        offset?: number;
+      };
+
+      const result = await deadLetterService.list({
+        status,
+        limit: Number(limit),
+        offset: Number(offset)
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        meta: {
+          total: result.total,
+          limit: result.limit,
+          offset: result.offset,
+          hasMore: result.offset + result.limit < result.total
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getDeadLetters:', error);
+      next(error);
+    }
+  }
+
+  // GET /admin/dead-letters/:id - Inspect a failed event
+  async getDeadLetter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const entry = await deadLetterService.get(id);
+
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Dead-letter entry ${id} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: entry
+      });
+    } catch (error) {
+      logger.error('Error in getDeadLetter:', error);
+      next(error);
+    }
+  }
+
+  // POST /admin/dead-letters/:id/replay - Re-run a failed event now
+  async replayDeadLetter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Only the indexing instance may apply events; a follower would race the leader's writes
+      if (!leaderElection.isLeader()) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: 'Dead-letter entries can only be replayed on the indexing instance',
+          data: { leaderId: leaderElection.getStatus().leaderId }
+        });
+        return;
+      }
+
+      if (!(await deadLetterService.get(id))) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Dead-letter entry ${id} not found`
+        });
+        return;
+      }
+
+      const result = await blockchainService.replayDeadLetter(id);
+
+      // Rejected replays conflict with indexed state; other failures come from the node or handler
+      res.status(result.success ? 200 : result.rejected ? 409 : 502).json({
+        success: result.success,
+        data: {
+          id,
+          replayed: result.success,
+          entry: result.success ? null : await deadLetterService.get(id)
+        },
+        ...(result.error && { message: result.error })
+      });
+    } catch (error) {
+      logger.error('Error in replayDeadLetter:', error);
+      next(error);
+    }
+  }
+
+  // DELETE /admin/dead-letters/:id - Discard a failed event
+  async discardDeadLetter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const removed = await deadLetterService.remove(id);
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Dead-letter entry ${id} not found`
+        });
+        return;
+      }
+
+      logger.warn('Dead-letter entry discarded', { id });
+
+      res.json({
+        success: true,
+        data: { id, discarded: true }
+      });
+    } catch (error) {
+      logger.error('Error in discardDeadLetter:', error);
+      next(error);
+    }
+  }
+}
+
+export default new DeadLetterController();
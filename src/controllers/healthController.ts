@@ -1,10 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import redisClient from '../database/redis';
 import blockchainService from '../services/blockchainService';
+import leaderElection, { LeaderStatus } from '../services/leaderElection';
 import issuerService from '../services/issuerService';
+import reconciliationService from '../services/reconciliationService';
 import { IssuerStatus } from '../types/issuer';
+import { ReconciliationRunSummary } from '../types/reconciliation';
 import logger from '../utils/logger';
 import config from '../config';
+import { LogRangeMetrics } from '../services/logRangeFetcher';
 
 interface HealthStatus {
   status: 'healthy' | 'unhealthy' | 'degraded';
@@ -16,13 +20,25 @@ interface HealthStatus {
     blockchain: ServiceHealth;
     api: ServiceHealth;
   };
+  instance?: LeaderStatus;
+  reconciliation?: {
+    running: boolean;
+    lastRun: ReconciliationRunSummary | null;
+    nextRunAt: number | null;
+  };
   metrics?: {
     totalIssuers: number;
     pendingIssuers: number;
     approvedIssuers: number;
     rejectedIssuers: number;
+    revokedIssuers?: number;
     lastProcessedBlock?: number;
     currentBlock?: number;
+    deadLetters?: {
+      retrying: number;
+      exhausted: number;
+    };
+    logRange?: LogRangeMetrics;
   };
 }
 
@@ -81,10 +97,14 @@ export class HealthController {
       const startTime = Date.now();
       
       // Check all services
-      const [redisHealth, blockchainHealth, metrics] = await Promise.all([
+      const [redisHealth, blockchainHealth, metrics, reconciliation] = await Promise.all([
         this.checkRedisHealth(),
         this.checkBlockchainHealth(),
-        this.getMetrics()
+        this.getMetrics(),
+        reconciliationService.getStatus().catch(error => {
+          logger.warn('Could not read reconciliation status:', error);
+          return null;
+        })
       ]);
       
       const overallStatus = this.determineOverallStatus([redisHealth, blockchainHealth]);
@@ -102,6 +122,14 @@ export class HealthController {
             responseTime: Date.now() - startTime
           }
         },
+        instance: leaderElection.getStatus(),
+        ...(reconciliation && {
+          reconciliation: {
+            running: reconciliation.running,
+            lastRun: reconciliation.lastRun,
+            nextRunAt: reconciliation.nextRunAt
+          }
+        }),
         metrics
       };
 
@@ -123,16 +151,22 @@ export class HealthController {
       // Check if all critical services are ready
       const redisReady = redisClient.isHealthy();
       const blockchainReady = blockchainService.isHealthy();
+      // Followers only serve the API, so only the indexing instance waits for catch-up
+      const isIndexer = leaderElection.isLeader();
+      const caughtUp = !isIndexer || blockchainService.isCaughtUp();
       
-      const isReady = redisReady && blockchainReady;
+      const isReady = redisReady && blockchainReady && caughtUp;
       
       res.status(isReady ? 200 : 503).json({
         success: isReady,
         ready: isReady,
         services: {
           redis: redisReady,
-          blockchain: blockchainReady
-        }
+          blockchain: blockchainReady,
+          caughtUp
+        },
+        role: leaderElection.getStatus().role,
+        ...(isIndexer && { catchUp: blockchainService.getCatchUpProgress() })
       });
     } catch (error) {
       logger.error('Readiness check failed:', error);
@@ -188,7 +222,10 @@ export class HealthController {
       if (!blockchainService.isHealthy()) {
         return {
           status: 'unhealthy',
-          error: 'Blockchain service not initialized'
+          error: 'Blockchain service not initialized or no RPC endpoint available',
+          details: {
+            rpcEndpoints: blockchainService.getRpcEndpointHealth()
+          }
         };
       }
       
@@ -198,47 +235,57 @@ export class HealthController {
         status: 'healthy',
         responseTime: Date.now() - startTime,
         details: {
-          currentBlock: blockNumber
+          currentBlock: blockNumber,
+          indexerMode: blockchainService.getIndexerMode(),
+          catchUp: blockchainService.getCatchUpProgress(),
+          rpcEndpoints: blockchainService.getRpcEndpointHealth()
         }
       };
     } catch (error) {
       return {
         status: 'unhealthy',
         responseTime: Date.now() - startTime,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        details: {
+          rpcEndpoints: blockchainService.getRpcEndpointHealth()
+        }
       };
     }
   }
 
   private async getMetrics(): Promise<HealthStatus['metrics']> {
     try {
-      const [pendingResult, approvedResult, rejectedResult] = await Promise.all([
-        issuerService.getIssuersByStatus({ status: IssuerStatus.PENDING, limit: 1 }),
-        issuerService.getIssuersByStatus({ status: IssuerStatus.APPROVED, limit: 1 }),
-        issuerService.getIssuersByStatus({ status: IssuerStatus.REJECTED, limit: 1 })
-      ]);
-
-      const totalIssuers = pendingResult.total + approvedResult.total + rejectedResult.total;
+      const counts = await issuerService.getStatusCounts();
       
       // Get last processed block from Redis
       let lastProcessedBlock: number | undefined;
       let currentBlock: number | undefined;
       
       try {
-        const lastBlock = await redisClient.getClient().get('backfill:last_processed_block');
-        lastProcessedBlock = lastBlock ? parseInt(lastBlock, 10) : undefined;
+        lastProcessedBlock = await blockchainService.getLastProcessedBlock();
         currentBlock = await blockchainService.getCurrentBlockNumber();
       } catch (error) {
         logger.warn('Failed to get block metrics:', error);
       }
 
+      let deadLetters: { retrying: number; exhausted: number } | undefined;
+
+      try {
+        deadLetters = await blockchainService.getDeadLetterCounts();
+      } catch (error) {
+        logger.warn('Failed to get dead-letter metrics:', error);
+      }
+
       return {
-        totalIssuers,
-        pendingIssuers: pendingResult.total,
-        approvedIssuers: approvedResult.total,
-        rejectedIssuers: rejectedResult.total,
+        totalIssuers: counts.total,
+        pendingIssuers: counts[IssuerStatus.PENDING],
+        approvedIssuers: counts[IssuerStatus.APPROVED],
+        rejectedIssuers: counts[IssuerStatus.REJECTED],
+        revokedIssuers: counts[IssuerStatus.REVOKED],
         lastProcessedBlock,
-        currentBlock
+        currentBlock,
+        deadLetters,
+        logRange: blockchainService.getLogRangeMetrics()
       };
     } catch (error) {
       logger.error('Failed to get metrics:', error);
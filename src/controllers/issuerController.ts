@@ -1,16 +1,62 @@
 import { Request, Response, NextFunction } from 'express';
 import issuerService from '../services/issuerService';
-import { IssuerQueryParams, IssuerStatus } from '../types/issuer';
+import statsService from '../services/statsService';
+import blockchainService from '../services/blockchainService';
+import {
+  ExportFormat,
+  IssuerFilters,
+  IssuerProjection,
+  IssuerQueryParams,
+  IssuerSortField,
+  IssuerStatus,
+  SortOrder
+} from '../types/issuer';
+import { StatsInterval } from '../types/stats';
+import { IssuerKeyView, OnchainIssuerView, StoredKeyHistory } from '../types/onchain';
 import logger from '../utils/logger';
+import { formatIssuerCsvHeader, formatIssuerCsvRow, formatIssuerNdjsonRow } from '../utils/export';
+import { detectIssuerDrift } from '../utils/issuerDrift';
 
 export class IssuerController {
+  // Split a validated "<field>:<order>" sort parameter; order defaults to descending
+  private parseSort(sort?: string): { sort?: IssuerSortField; order?: SortOrder } {
+    if (!sort) {
+      return {};
+    }
+
+    const [field, order = 'desc'] = sort.split(':');
+    return { sort: field as IssuerSortField, order: order as SortOrder };
+  }
+
+  // Collect the optional filters from a query validated by schemas.getIssuers
+  private parseFilters(query: Record<string, any>): IssuerFilters {
+    const toTime = (value?: Date) => (value instanceof Date ? value.getTime() : undefined);
+
+    return {
+      category: query.category,
+      minStakeAmount: query.minStakeAmount,
+      maxStakeAmount: query.maxStakeAmount,
+      minProposedFixedFee: query.minProposedFixedFee,
+      maxProposedFixedFee: query.maxProposedFixedFee,
+      submittedFrom: toTime(query.submittedFrom),
+      submittedTo: toTime(query.submittedTo),
+      updatedFrom: toTime(query.updatedFrom),
+      updatedTo: toTime(query.updatedTo),
+      approveFixedFee: query.approveFixedFee,
+      fromBlock: query.fromBlock,
+      toBlock: query.toBlock,
+      caller: query.caller
+    };
+  }
+
   // GET /issuers - Get issuers with optional filtering
   async getIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { status, limit = 10, offset = 0 } = req.query as {
+      const { status, limit = 10, offset = 0, cursor } = req.query as {
         status?: IssuerStatus;
         limit?: string;
         offset?: string;
+        cursor?: string;
       };
 
       const parsedLimit = parseInt(limit as string) || 10;
@@ -23,11 +69,20 @@ export class IssuerController {
         result = await issuerService.getIssuersByStatus({
           status,
           limit: parsedLimit,
-          offset: parsedOffset
+          offset: parsedOffset,
+          cursor,
+          filters: this.parseFilters(req.query),
+          ...this.parseSort(req.query.sort as string | undefined)
         });
       } else {
         // Get all issuers
-        result = await issuerService.getAllIssuers(parsedLimit, parsedOffset);
+        result = await issuerService.getAllIssuers({
+          limit: parsedLimit,
+          offset: parsedOffset,
+          cursor,
+          filters: this.parseFilters(req.query),
+          ...this.parseSort(req.query.sort as string | undefined)
+        });
       }
 
       res.json({
@@ -37,7 +92,9 @@ export class IssuerController {
           total: result.total,
           limit: result.limit,
           offset: result.offset,
-          hasMore: result.offset + result.limit < result.total
+          hasMore: result.nextCursor !== null,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor
         }
       });
     } catch (error) {
@@ -72,20 +129,316 @@ export class IssuerController {
     }
   }
 
-  // GET /issuers/stats - Get issuer statistics
+  // GET /issuer/:address/onchain - Compare the cached issuer with the live registry entry
+  async getIssuerOnchain(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { address } = req.params;
+
+      const [onchain, cached, indexedThrough] = await Promise.all([
+        blockchainService.getIssuerInfo(address),
+        issuerService.getIssuer(address),
+        blockchainService.getLastProcessedBlock()
+      ]);
+
+      if (!cached && !onchain.registered) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Issuer with address ${address} not found in the cache or on chain`
+        });
+        return;
+      }
+
+      const drift = detectIssuerDrift(cached, onchain);
+      const view: OnchainIssuerView = {
+        address: onchain.address,
+        blockNumber: onchain.blockNumber,
+        indexedThrough,
+        onchain,
+        cached,
+        inSync: drift.length === 0,
+        drift
+      };
+
+      if (drift.length > 0) {
+        logger.warn('Issuer cache drift detected', { address: onchain.address, fields: drift.map(item => item.field) });
+      }
+
+      res.json({
+        success: true,
+        data: view
+      });
+    } catch (error) {
+      logger.error('Error in getIssuerOnchain:', error);
+      next(error);
+    }
+  }
+
+  // GET /issuer/:address/keys - Signing-key history with validity windows
+  async getIssuerKeys(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { address } = req.params;
+      const { at } = req.query as { at?: Date };
+
+      const [issuer, stored] = await Promise.all([
+        issuerService.getIssuer(address),
+        issuerService.getKeyHistory(address)
+      ]);
+
+      // Issuers approved before keys were tracked get their history on first request
+      let keyHistory: StoredKeyHistory | null = stored;
+      if (!keyHistory && issuer && issuer.status !== IssuerStatus.PENDING) {
+        try {
+          const info = await blockchainService.getIssuerInfo(address);
+          if (info.registered) {
+            keyHistory = await issuerService.storeKeyHistory(address, info.activeKeyIndex, info.keyHistory, info.blockNumber);
+          }
+        } catch (error) {
+          logger.warn('Could not read key history from the contract', { address, error });
+        }
+      }
+
+      if (!issuer && !keyHistory) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Issuer with address ${address} not found`
+        });
+        return;
+      }
+
+      const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+      const atSeconds = at instanceof Date ? Math.floor(at.getTime() / 1000) : undefined;
+
+      const view: IssuerKeyView = {
+        address: address.toLowerCase(),
+        applicationKey: issuer ? issuer.publicKey : null,
+        activeKeyIndex: keyHistory ? keyHistory.activeKeyIndex : null,
+        blockNumber: keyHistory ? keyHistory.blockNumber : null,
+        refreshedAt: keyHistory ? new Date(keyHistory.refreshedAt).toISOString() : null,
+        keys: (keyHistory?.keys || []).map((key, index) => ({
+          index,
+          keyId: key.keyId,
+          publicKey: key.publicKey,
+          provider: key.provider,
+          isActive: key.isActive,
+          isCurrent: index === keyHistory!.activeKeyIndex,
+          validFrom: toIso(key.validFrom),
+          // A zero validUntil leaves the window open
+          validUntil: key.validUntil > 0 ? toIso(key.validUntil) : null,
+          ...(atSeconds !== undefined && {
+            validAtRequestedTime: key.validFrom <= atSeconds && (key.validUntil === 0 || atSeconds < key.validUntil)
+          })
+        }))
+      };
+
+      res.json({
+        success: true,
+        data: view
+      });
+    } catch (error) {
+      logger.error('Error in getIssuerKeys:', error);
+      next(error);
+    }
+  }
+
+  // GET /issuers/search - Find issuers by name or partial address
+  async searchIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { q, status, limit = 20 } = req.query as {
+        q?: string;
+        status?: IssuerStatus;
+        limit?: number;
+      };
+
+      const results = await issuerService.searchIssuers({
+        q: q || '',
+        status,
+        limit: Number(limit)
+      });
+
+      res.json({
+        success: true,
+        data: results,
+        meta: {
+          query: q,
+          count: results.length,
+          limit: Number(limit)
+        }
+      });
+    } catch (error) {
+      logger.error('Error in searchIssuers:', error);
+      next(error);
+    }
+  }
+
+  // POST /issuers/batch - Look up many issuers at once
+  async batchIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { addresses, projection = 'full' } = req.body as {
+        addresses: string[];
+        projection?: IssuerProjection;
+      };
+
+      const issuers = projection === 'status'
+        ? await issuerService.lookupIssuerStatuses(addresses)
+        : await issuerService.lookupIssuers(addresses);
+
+      const values = Object.values(issuers);
+
+      res.json({
+        success: true,
+        data: issuers,
+        meta: {
+          projection,
+          requested: values.length,
+          found: values.filter(issuer => issuer !== null).length
+        }
+      });
+    } catch (error) {
+      logger.error('Error in batchIssuers:', error);
+      next(error);
+    }
+  }
+
+  // GET /issuers/export - Stream every matching issuer as CSV or NDJSON
+  async exportIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { format = 'csv', status } = req.query as {
+      format?: ExportFormat;
+      status?: IssuerStatus;
+    };
+
+    try {
+      const rows = issuerService.streamIssuerExport({
+        status,
+        filters: this.parseFilters(req.query)
+      });
+
+      // Pull the first batch before sending headers so early failures still get a JSON error
+      let batch = await rows.next();
+
+      const date = new Date().toISOString().slice(0, 10);
+      res.status(200);
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="issuers-${date}.${format}"`);
+      res.setHeader('Cache-Control', 'no-store');
+
+      if (format === 'csv' && !(await this.writeChunk(res, formatIssuerCsvHeader()))) {
+        await rows.return(undefined);
+        return;
+      }
+
+      let exported = 0;
+      while (!batch.done) {
+        const chunk = batch.value
+          .map(row => (format === 'csv' ? formatIssuerCsvRow(row) : formatIssuerNdjsonRow(row)))
+          .join('');
+        exported += batch.value.length;
+
+        // Stop reading from Redis once the client has gone away
+        if (!(await this.writeChunk(res, chunk))) {
+          await rows.return(undefined);
+          logger.warn('Issuer export aborted by client', { format, exported });
+          return;
+        }
+
+        batch = await rows.next();
+      }
+
+      res.end();
+      logger.info('Issuer export completed', { format, status, exported });
+    } catch (error) {
+      logger.error('Error in exportIssuers:', error);
+      if (res.headersSent) {
+        // Too late for an error response; cut the stream so the file is visibly incomplete
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  // Write a chunk, waiting for the socket to drain; resolves false if the client disconnected
+  private writeChunk(res: Response, chunk: string): Promise<boolean> {
+    if (res.destroyed || res.writableEnded) {
+      return Promise.resolve(false);
+    }
+    if (res.write(chunk)) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const onDrain = () => {
+        res.off('close', onClose);
+        resolve(true);
+      };
+      const onClose = () => {
+        res.off('drain', onDrain);
+        resolve(false);
+      };
+      res.once('drain', onDrain);
+      res.once('close', onClose);
+    });
+  }
+
+  // GET /issuer/:address/history - Get event history for an issuer
+  async getIssuerHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { address } = req.params;
+
+      const history = await issuerService.getIssuerHistory(address);
+
+      // Issuers indexed before history was kept have none; only an unknown issuer is a 404
+      if (history.length === 0 && !(await issuerService.issuerExists(address))) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Issuer with address ${address} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          address: address.toLowerCase(),
+          history
+        },
+        meta: {
+          total: history.length
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getIssuerHistory:', error);
+      next(error);
+    }
+  }
+
+  // GET /issuers/stats - Get issuer statistics and activity time series
   async getIssuerStats(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const [pendingResult, approvedResult, rejectedResult] = await Promise.all([
-        issuerService.getIssuersByStatus({ status: IssuerStatus.PENDING, limit: 1 }),
-        issuerService.getIssuersByStatus({ status: IssuerStatus.APPROVED, limit: 1 }),
-        issuerService.getIssuersByStatus({ status: IssuerStatus.REJECTED, limit: 1 })
+      const { interval, from, to } = req.query as {
+        interval?: StatsInterval;
+        from?: Date;
+        to?: Date;
+      };
+
+      const [counts, activity] = await Promise.all([
+        issuerService.getStatusCounts(),
+        statsService.getActivityStats({
+          interval,
+          from: from instanceof Date ? from.getTime() : undefined,
+          to: to instanceof Date ? to.getTime() : undefined
+        })
       ]);
 
       const stats = {
-        pending: pendingResult.total,
-        approved: approvedResult.total,
-        rejected: rejectedResult.total,
-        total: pendingResult.total + approvedResult.total + rejectedResult.total
+        pending: counts[IssuerStatus.PENDING],
+        approved: counts[IssuerStatus.APPROVED],
+        rejected: counts[IssuerStatus.REJECTED],
+        revoked: counts[IssuerStatus.REVOKED],
+        total: counts.total,
+        ...activity
       };
 
       res.json({
@@ -101,15 +454,19 @@ export class IssuerController {
   // GET /issuers/pending - Get pending issuers (shortcut)
   async getPendingIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { limit = 50, offset = 0 } = req.query as {
+      const { limit = 50, offset = 0, cursor } = req.query as {
         limit?: number;
         offset?: number;
+        cursor?: string;
       };
 
       const result = await issuerService.getIssuersByStatus({
         status: IssuerStatus.PENDING,
         limit: Number(limit),
-        offset: Number(offset)
+        offset: Number(offset),
+        cursor,
+        filters: this.parseFilters(req.query),
+        ...this.parseSort(req.query.sort as string | undefined)
       });
 
       res.json({
@@ -119,7 +476,9 @@ export class IssuerController {
           total: result.total,
           limit: result.limit,
           offset: result.offset,
-          hasMore: result.offset + result.limit < result.total
+          hasMore: result.nextCursor !== null,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor
         }
       });
     } catch (error) {
@@ -131,15 +490,19 @@ export class IssuerController {
   // GET /issuers/approved - Get approved issuers (shortcut)
   async getApprovedIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { limit = 50, offset = 0 } = req.query as {
+      const { limit = 50, offset = 0, cursor } = req.query as {
         limit?: number;
         offset?: number;
+        cursor?: string;
       };
 
       const result = await issuerService.getIssuersByStatus({
         status: IssuerStatus.APPROVED,
         limit: Number(limit),
-        offset: Number(offset)
+        offset: Number(offset),
+        cursor,
+        filters: this.parseFilters(req.query),
+        ...this.parseSort(req.query.sort as string | undefined)
       });
 
       res.json({
@@ -149,7 +512,9 @@ export class IssuerController {
           total: result.total,
           limit: result.limit,
           offset: result.offset,
-          hasMore: result.offset + result.limit < result.total
+          hasMore: result.nextCursor !== null,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor
         }
       });
     } catch (error) {
@@ -161,15 +526,19 @@ export class IssuerController {
   // GET /issuers/rejected - Get rejected issuers (shortcut)
   async getRejectedIssuers(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { limit = 50, offset = 0 } = req.query as {
+      const { limit = 50, offset = 0, cursor } = req.query as {
         limit?: number;
         offset?: number;
+        cursor?: string;
       };
 
       const result = await issuerService.getIssuersByStatus({
         status: IssuerStatus.REJECTED,
         limit: Number(limit),
-        offset: Number(offset)
+        offset: Number(offset),
+        cursor,
+        filters: this.parseFilters(req.query),
+        ...this.parseSort(req.query.sort as string | undefined)
       });
 
       res.json({
@@ -179,7 +548,9 @@ export class IssuerController {
           total: result.total,
           limit: result.limit,
           offset: result.offset,
-          hasMore: result.offset + result.limit < result.total
+          hasMore: result.nextCursor !== null,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor
         }
       });
     } catch (error) {
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from 'express';
+import reconciliationService from '../services/reconciliationService';
+import logger from '../utils/logger';
+
+export class ReconciliationController {
+  // GET /admin/reconciliation - Schedule, current run and last run summary
+  async getStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await reconciliationService.getStatus();
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      logger.error('Error in getStatus:', error);
+      next(error);
+    }
+  }
+
+  // GET /admin/reconciliation/runs - Recent run summaries
+  async getRuns(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { limit = 20 } = req.query as { limit?: number };
+
+      const runs = await reconciliationService.listRuns(Number(limit));
+
+      res.json({
+        success: true,
+        data: runs,
+        meta: {
+          count: runs.length,
+          limit: Number(limit)
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getRuns:', error);
+      next(error);
+    }
+  }
+
+  // GET /admin/reconciliation/runs/:id - Full drift report of a run
+  async getRun(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const run = await reconciliationService.getRun(id);
+
+      if (!run) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: `Reconciliation run ${id} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: run
+      });
+    } catch (error) {
+      logger.error('Error in getRun:', error);
+      next(error);
+    }
+  }
+
+  // POST /admin/reconciliation/run - Start a run now
+  async triggerRun(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { autoRepair } = req.body as { autoRepair?: boolean };
+
+      const run = await reconciliationService.trigger(autoRepair);
+
+      if (!run) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: 'A reconciliation run is already in progress'
+        });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        data: run
+      });
+    } catch (error) {
+      logger.error('Error in triggerRun:', error);
+      next(error);
+    }
+  }
+}
+
+export default new ReconciliationController();
@@ -1,18 +1,125 @@
+import { createHash, timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { IssuerStatus } from '../types/issuer';
+import { IssuerStatus, IssuerSortField } from '../types/issuer';
+import { DeadLetterStatus } from '../types/deadLetter';
+import config from '../config';
 import logger from '../utils/logger';
+import { decodeCursor } from '../utils/cursor';
+
+// Unsigned integer amounts (uint256) are passed as decimal strings
+const uintString = Joi.string().pattern(/^\d+$/).max(78);
+
+// "<field>" or "<field>:asc|desc", e.g. "stakeAmount:desc"
+const sortPattern = new RegExp(`^(${Object.values(IssuerSortField).join('|')})(:(asc|desc))?$`);
+
+// Status and filters shared by the issuer listing and export
+const issuerFilterFields = {
+  status: Joi.string().valid(...Object.values(IssuerStatus)).optional(),
+  category: Joi.string().trim().min(1).max(100).optional(),
+  minStakeAmount: uintString.optional(),
+  maxStakeAmount: uintString.optional(),
+  minProposedFixedFee: uintString.optional(),
+  maxProposedFixedFee: uintString.optional(),
+  submittedFrom: Joi.date().optional(),
+  submittedTo: Joi.date().optional()
+    .when('submittedFrom', { is: Joi.exist(), then: Joi.date().min(Joi.ref('submittedFrom')) }),
+  updatedFrom: Joi.date().optional(),
+  updatedTo: Joi.date().optional()
+    .when('updatedFrom', { is: Joi.exist(), then: Joi.date().min(Joi.ref('updatedFrom')) }),
+  approveFixedFee: Joi.boolean().optional(),
+  fromBlock: Joi.number().integer().min(0).optional(),
+  toBlock: Joi.number().integer().min(0).optional()
+    .when('fromBlock', { is: Joi.exist(), then: Joi.number().min(Joi.ref('fromBlock')) }),
+  caller: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).lowercase().optional()
+};
 
 // Validation schemas
 export const schemas = {
   getIssuers: Joi.object({
-    status: Joi.string().valid(...Object.values(IssuerStatus)).optional(),
+    ...issuerFilterFields,
     limit: Joi.number().integer().min(1).max(100).default(50),
-    offset: Joi.number().integer().min(0).default(0)
+    offset: Joi.number().integer().min(0).default(0),
+    cursor: Joi.string()
+      .custom((value, helpers) => (decodeCursor(value) ? value : helpers.error('any.invalid')))
+      .optional(),
+    sort: Joi.string().pattern(sortPattern).optional()
+  }).custom((value, helpers) => {
+    // A cursor is a position within one ordering; reusing it with another would land anywhere
+    const cursor = value.cursor ? decodeCursor(value.cursor) : null;
+    const [sort, order = 'desc'] = (value.sort || `${IssuerSortField.UPDATED_AT}:desc`).split(':');
+    if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+      return helpers.message({
+        custom: `"cursor" was issued for sort=${cursor.sort}:${cursor.order}, not ${sort}:${order}`
+      });
+    }
+    return value;
+  }),
+
+  exportIssuers: Joi.object({
+    ...issuerFilterFields,
+    format: Joi.string().valid('csv', 'ndjson').default('csv')
   }),
   
+  getIssuerStats: Joi.object({
+    interval: Joi.string().valid('day', 'week').default('day'),
+    from: Joi.date().optional(),
+    to: Joi.date().optional()
+      .when('from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('from')) })
+  }),
+
+  searchIssuers: Joi.object({
+    q: Joi.string().trim().min(2).max(100).required(),
+    status: Joi.string().valid(...Object.values(IssuerStatus)).optional(),
+    limit: Joi.number().integer().min(1).max(100).default(20)
+  }),
+
   getIssuerByAddress: Joi.object({
     address: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).required()
+  }),
+
+  getIssuerKeys: Joi.object({
+    at: Joi.date().optional()
+  }),
+
+  batchIssuers: Joi.object({
+    addresses: Joi.array()
+      .items(Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).lowercase())
+      .min(1)
+      .max(config.api.batchLookupLimit)
+      .required(),
+    projection: Joi.string().valid('full', 'status').default('full')
+  }),
+
+  getDeadLetters: Joi.object({
+    status: Joi.string().valid(...Object.values(DeadLetterStatus)).optional(),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    offset: Joi.number().integer().min(0).default(0)
+  }),
+
+  deadLetterId: Joi.object({
+    id: Joi.string().lowercase().pattern(/^0x[a-f0-9]{64}:\d+$/).required()
+  }),
+
+  getReconciliationRuns: Joi.object({
+    limit: Joi.number().integer().min(1).max(100).default(20)
+  }),
+
+  reconciliationRunId: Joi.object({
+    id: Joi.string().guid().required()
+  }),
+
+  triggerReconciliation: Joi.object({
+    autoRepair: Joi.boolean().optional()
+  }),
+
+  categoryId: Joi.object({
+    id: Joi.string().lowercase().pattern(/^0x[a-f0-9]{64}$/).required()
+  }),
+
+  upsertCategory: Joi.object({
+    label: Joi.string().trim().min(1).max(100).required(),
+    description: Joi.string().trim().max(500).allow('').optional()
   })
 };
 
@@ -56,6 +163,35 @@ export const validate = (schema: Joi.ObjectSchema, source: 'body' | 'query' | 'p
   };
 };
 
+// Guard for mutating admin routes: requires `Authorization: Bearer <ADMIN_TOKEN>`
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = config.api.adminToken;
+  if (!expected) {
+    res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'Admin actions are disabled until ADMIN_TOKEN is configured'
+    });
+    return;
+  }
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+
+  // Compare digests so the check takes the same time whatever the token length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (scheme !== 'Bearer' || !token || !timingSafeEqual(digest(token), digest(expected))) {
+    logger.warn('Rejected admin request', { method: req.method, url: req.url, ip: req.ip });
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid admin token is required'
+    });
+    return;
+  }
+
+  next();
+};
+
 // Error handling middleware
 export const errorHandler = (error: Error, req: Request, res: Response, next: NextFunction): void => {
   logger.error('API Error:', {
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import categoryController from '../controllers/categoryController';
+import { validate, schemas, requireAdminToken } from '../middleware/validation';
+
+const router = Router();
+
+// PUT /admin/categories/:id - Register or relabel a category
+router.put(
+  '/:id',
+  requireAdminToken,
+  validate(schemas.categoryId, 'params'),
+  validate(schemas.upsertCategory, 'body'),
+  categoryController.upsertCategory.bind(categoryController)
+);
+
+// DELETE /admin/categories/:id - Remove a category from the registry
+router.delete(
+  '/:id',
+  requireAdminToken,
+  validate(schemas.categoryId, 'params'),
+  categoryController.deleteCategory.bind(categoryController)
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import categoryController from '../controllers/categoryController';
+import { validate, schemas } from '../middleware/validation';
+
+const router = Router();
+
+// GET /categories - List categories with issuer counts per status
+router.get(
+  '/',
+  categoryController.getCategories.bind(categoryController)
+);
+
+// GET /categories/:id - Get a single category
+router.get(
+  '/:id',
+  validate(schemas.categoryId, 'params'),
+  categoryController.getCategory.bind(categoryController)
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import deadLetterController from '../controllers/deadLetterController';
+import { validate, schemas, requireAdminToken } from '../middleware/validation';
+
+const router = Router();
+
+// GET /admin/dead-letters - List failed events
+router.get(
+  '/',
+  validate(schemas.getDeadLetters, 'query'),
+  deadLetterController.getDeadLetters.bind(deadLetterController)
+);
+
+// GET /admin/dead-letters/:id - Inspect a failed event
+router.get(
+  '/:id',
+  validate(schemas.deadLetterId, 'params'),
+  deadLetterController.getDeadLetter.bind(deadLetterController)
+);
+
+// POST /admin/dead-letters/:id/replay - Replay a failed event
+router.post(
+  '/:id/replay',
+  requireAdminToken,
+  validate(schemas.deadLetterId, 'params'),
+  deadLetterController.replayDeadLetter.bind(deadLetterController)
+);
+
+// DELETE /admin/dead-letters/:id - Discard a failed event
+router.delete(
+  '/:id',
+  requireAdminToken,
+  validate(schemas.deadLetterId, 'params'),
+  deadLetterController.discardDeadLetter.bind(deadLetterController)
+);
+
+export default router;
@@ -11,12 +11,34 @@ router.get(
   issuerController.getIssuers.bind(issuerController)
 );
 
-// GET /issuers/stats - Get issuer statistics
+// GET /issuers/stats - Get issuer statistics and activity time series
 router.get(
   '/stats',
+  validate(schemas.getIssuerStats, 'query'),
   issuerController.getIssuerStats.bind(issuerController)
 );
 
+// GET /issuers/search - Search issuers by name or address
+router.get(
+  '/search',
+  validate(schemas.searchIssuers, 'query'),
+  issuerController.searchIssuers.bind(issuerController)
+);
+
+// GET /issuers/export - Export matching issuers as CSV or NDJSON
+router.get(
+  '/export',
+  validate(schemas.exportIssuers, 'query'),
+  issuerController.exportIssuers.bind(issuerController)
+);
+
+// POST /issuers/batch - Look up many issuers by address
+router.post(
+  '/batch',
+  validate(schemas.batchIssuers, 'body'),
+  issuerController.batchIssuers.bind(issuerController)
+);
+
 // GET /issuers/pending - Get pending issuers
 router.get(
   '/pending',
@@ -38,6 +60,28 @@ router.get(
   issuerController.getRejectedIssuers.bind(issuerController)
 );
 
+// GET /issuer/:address/history - Get event history for an issuer
+router.get(
+  '/:address/history',
+  validate(schemas.getIssuerByAddress, 'params'),
+  issuerController.getIssuerHistory.bind(issuerController)
+);
+
+// GET /issuer/:address/keys - Get the signing-key history of an issuer
+router.get(
+  '/:address/keys',
+  validate(schemas.getIssuerByAddress, 'params'),
+  validate(schemas.getIssuerKeys, 'query'),
+  issuerController.getIssuerKeys.bind(issuerController)
+);
+
+// GET /issuer/:address/onchain - Compare the cached issuer with the contract
+router.get(
+  '/:address/onchain',
+  validate(schemas.getIssuerByAddress, 'params'),
+  issuerController.getIssuerOnchain.bind(issuerController)
+);
+
 // GET /issuer/:address - Get specific issuer by address
 router.get(
   '/:address',
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import reconciliationController from '../controllers/reconciliationController';
+import { validate, schemas, requireAdminToken } from '../middleware/validation';
+
+const router = Router();
+
+// GET /admin/reconciliation - Reconciliation schedule and last run
+router.get(
+  '/',
+  reconciliationController.getStatus.bind(reconciliationController)
+);
+
+// GET /admin/reconciliation/runs - List recent runs
+router.get(
+  '/runs',
+  validate(schemas.getReconciliationRuns, 'query'),
+  reconciliationController.getRuns.bind(reconciliationController)
+);
+
+// GET /admin/reconciliation/runs/:id - Inspect a run
+router.get(
+  '/runs/:id',
+  validate(schemas.reconciliationRunId, 'params'),
+  reconciliationController.getRun.bind(reconciliationController)
+);
+
+// POST /admin/reconciliation/run - Start a run now
+router.post(
+  '/run',
+  requireAdminToken,
+  validate(schemas.triggerReconciliation, 'body'),
+  reconciliationController.triggerRun.bind(reconciliationController)
+);
+
+export default router;
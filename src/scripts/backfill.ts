@@ -1,28 +1,21 @@
-import { Log } from 'ethers';
 import config from '../config';
 import logger from '../utils/logger';
 import redisClient from '../database/redis';
 import blockchainService from '../services/blockchainService';
-import issuerService from '../services/issuerService';
-import {
-  IssuerApplicationSubmittedEvent,
-  IssuerApprovedEvent,
-  IssuerRejectedEvent,
-  EventMetadata,
-  IssuerRevokedEvent
-} from '../types/issuer';
+import leaderElection from '../services/leaderElection';
 
 interface BackfillOptions {
   startBlock?: number;
   endBlock?: number | 'latest';
   batchSize?: number;
   delayBetweenBatches?: number;
+  // Allow a start block above the cursor, leaving the blocks in between unindexed
+  skipAhead?: boolean;
 }
 
 class BackfillService {
   private readonly BATCH_SIZE = 999;
   private readonly DELAY_BETWEEN_BATCHES = 1000; // 1 second
-  private readonly REDIS_BACKFILL_KEY = 'backfill:last_processed_block';
 
   async run(options: BackfillOptions = {}): Promise<void> {
     try {
@@ -30,22 +23,42 @@ class BackfillService {
 
       // Connect to Redis and Blockchain
       await redisClient.connect();
+
+      // Hold the indexer lease for the whole run so no replica advances the cursor meanwhile
+      if (!(await leaderElection.acquireJobLease())) {
+        throw new Error(
+          `Indexer lease is held by ${leaderElection.getStatus().leaderId}; stop the indexer before running a backfill`
+        );
+      }
+
       await blockchainService.initialize();
 
       const {
         startBlock = config.blockchain.startBlock,
         endBlock = 'latest',
         batchSize = this.BATCH_SIZE,
-        delayBetweenBatches = this.DELAY_BETWEEN_BATCHES
+        delayBetweenBatches = this.DELAY_BETWEEN_BATCHES,
+        skipAhead = false
       } = options;
 
-      // Get the last processed block from Redis
-      const lastProcessedBlock = await this.getLastProcessedBlock();
+      // Resume from the indexer cursor shared with the live service
+      const lastProcessedBlock = await blockchainService.getLastProcessedBlock();
       const fromBlock = Math.max(startBlock, lastProcessedBlock + 1);
 
-      // Get current block number if endBlock is 'latest'
+      // Moving the cursor past blocks nobody indexed would lose their events for good
+      if (fromBlock > lastProcessedBlock + 1) {
+        if (!skipAhead) {
+          throw new Error(
+            `--start-block ${startBlock} is above the cursor (${lastProcessedBlock}); pass --skip-ahead to leave ` +
+            `blocks ${lastProcessedBlock + 1} to ${fromBlock - 1} unindexed`
+          );
+        }
+        logger.warn(`Skipping blocks ${lastProcessedBlock + 1} to ${fromBlock - 1} as requested by --skip-ahead`);
+      }
+
+      // Get the confirmed head if endBlock is 'latest'
       const toBlock = endBlock === 'latest'
-        ? await blockchainService.getCurrentBlockNumber()
+        ? await blockchainService.getConfirmedBlockNumber()
         : endBlock;
 
       logger.info(`Backfilling events from block ${fromBlock} to ${toBlock}`);
@@ -65,24 +78,29 @@ class BackfillService {
         logger.info(`Processing batch: blocks ${currentBlock} to ${batchEndBlock}`);
 
         try {
-          const logs = await blockchainService.getHistoricalEvents(currentBlock, batchEndBlock);
-          const eventsProcessed = await this.processLogs(logs);
+          // Same pipeline as live polling: failed logs are dead-lettered and the cursor advances
+          const eventsProcessed = await blockchainService.syncRange(
+            currentBlock,
+            batchEndBlock,
+            () => leaderElection.hasJobLease()
+          );
+          if (!leaderElection.hasJobLease()) {
+            throw new Error('Indexer lease was lost; stopping so the backfill does not race the indexer');
+          }
 
           totalEventsProcessed += eventsProcessed;
 
-          // Update last processed block
-          await this.setLastProcessedBlock(batchEndBlock);
-
           logger.info(`Batch completed: ${eventsProcessed} events processed`);
 
           // Delay between batches to avoid rate limiting
-          if (currentBlock < toBlock && delayBetweenBatches > 0) {
+          if (batchEndBlock < toBlock && delayBetweenBatches > 0) {
             await this.delay(delayBetweenBatches);
           }
 
         } catch (error) {
+          // Stop rather than skip the batch so the cursor never passes unindexed blocks
           logger.error(`Error processing batch ${currentBlock}-${batchEndBlock}:`, error);
-          // Continue with next batch instead of failing completely
+          throw error;
         }
 
         currentBlock = batchEndBlock + 1;
@@ -98,112 +116,13 @@ class BackfillService {
     }
   }
 
-  private async processLogs(logs: Log[]): Promise<number> {
-    let eventsProcessed = 0;
-
-    for (const log of logs) {
-      try {
-        const parsedEvent = blockchainService.parseLog(log);
-
-        if (!parsedEvent) {
-          logger.warn('Failed to parse log:', { txHash: log.transactionHash, blockNumber: log.blockNumber });
-          continue;
-        }
-
-        const metadata: EventMetadata = {
-          txHash: log.transactionHash,
-          blockNumber: log.blockNumber,
-          timestamp: await blockchainService.getBlockTimestamp(log.blockNumber)
-        };
-
-        await this.processEvent(parsedEvent.eventName, parsedEvent.args, metadata);
-        eventsProcessed++;
-
-      } catch (error) {
-        logger.error('Error processing individual log:', error, {
-          txHash: log.transactionHash,
-          blockNumber: log.blockNumber
-        });
-        // Continue processing other logs
-      }
-    }
-
-    return eventsProcessed;
-  }
-
-  private async processEvent(eventName: string, args: any, metadata: EventMetadata): Promise<void> {
-    switch (eventName) {
-      case 'IssuerApplicationSubmitted':
-        const applicationEvent: IssuerApplicationSubmittedEvent = {
-          issuer: args.issuer,
-          name: args.name,
-          requestedCategories: args.requestedCategories,
-          proposedFixedFee: args.proposedFixedFee.toString(),
-          publicKey: args.publicKey,
-          stakeAmount: args.stakeAmount.toString()
-        };
-        await issuerService.handleApplicationSubmitted(applicationEvent, metadata);
-        break;
-
-      case 'IssuerApproved':
-        const issuerInfo = await blockchainService.contract!.getIssuerInfo(args.issuer);
-        const approvedEvent: IssuerApprovedEvent = {
-          caller: args.caller,
-          issuer: args.issuer,
-          attestationUID: args.attestationUID,
-          approveFixedFee: args.approveFixedFee,
-          feePerCategory: Number(issuerInfo.feePerCategory),
-          registrationTime: Number(issuerInfo.registrationTime)
-        };
-        await issuerService.handleIssuerApproved(approvedEvent, metadata);
-        break;
-
-      case 'IssuerRejected':
-        const rejectedEvent: IssuerRejectedEvent = {
-          caller: args.caller,
-          issuer: args.issuer
-        };
-        await issuerService.handleIssuerRejected(rejectedEvent, metadata);
-        break;
-
-      case 'IssuerRevoked':
-        const revokedEvent: IssuerRevokedEvent = {
-          caller: args.caller,
-          issuer: args.issuer,
-          attestationUID: args.attestationUID
-        };
-        await issuerService.handleIssuerRevoked(revokedEvent, metadata);
-        break;
-
-      default:
-        logger.warn(`Unknown event type: ${eventName}`);
-    }
-  }
-
-  private async getLastProcessedBlock(): Promise<number> {
-    try {
-      const lastBlock = await redisClient.getClient().get(this.REDIS_BACKFILL_KEY);
-      return lastBlock ? parseInt(lastBlock, 10) : config.blockchain.startBlock - 1;
-    } catch (error) {
-      logger.error('Error getting last processed block:', error);
-      return config.blockchain.startBlock - 1;
-    }
-  }
-
-  private async setLastProcessedBlock(blockNumber: number): Promise<void> {
-    try {
-      await redisClient.getClient().set(this.REDIS_BACKFILL_KEY, blockNumber.toString());
-    } catch (error) {
-      logger.error('Error setting last processed block:', error);
-    }
-  }
-
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   private async cleanup(): Promise<void> {
     try {
+      await leaderElection.releaseJobLease();
       await blockchainService.disconnect();
       await redisClient.disconnect();
       logger.info('Cleanup completed');
@@ -216,8 +135,8 @@ class BackfillService {
   async resetProgress(): Promise<void> {
     try {
       await redisClient.connect();
-      await redisClient.getClient().del(this.REDIS_BACKFILL_KEY);
-      logger.info('Backfill progress reset');
+      await blockchainService.resetLastProcessedBlock();
+      logger.info('Indexer cursor reset');
     } catch (error) {
       logger.error('Error resetting backfill progress:', error);
       throw error;
@@ -232,7 +151,7 @@ class BackfillService {
       await redisClient.connect();
       await blockchainService.initialize();
 
-      const lastProcessedBlock = await this.getLastProcessedBlock();
+      const lastProcessedBlock = await blockchainService.getLastProcessedBlock();
       const currentBlock = await blockchainService.getCurrentBlockNumber();
 
       return { lastProcessedBlock, currentBlock };
@@ -278,6 +197,8 @@ async function main(): Promise<void> {
       options.endBlock = endBlockArg === 'latest' ? 'latest' : parseInt(endBlockArg, 10);
     }
 
+    options.skipAhead = args.includes('--skip-ahead');
+
     const batchSizeIndex = args.indexOf('--batch-size');
     if (batchSizeIndex !== -1 && args[batchSizeIndex + 1]) {
       options.batchSize = parseInt(args[batchSizeIndex + 1], 10);
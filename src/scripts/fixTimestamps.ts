@@ -0,0 +1,116 @@
+import logger from '../utils/logger';
+import redisClient from '../database/redis';
+import blockchainService from '../services/blockchainService';
+import issuerService from '../services/issuerService';
+
+interface FixTimestampsOptions {
+  dryRun?: boolean;
+  delayBetweenIssuers?: number;
+}
+
+class FixTimestampsService {
+  private readonly DELAY_BETWEEN_ISSUERS = 100; // 100ms
+
+  async run(options: FixTimestampsOptions = {}): Promise<void> {
+    try {
+      logger.info('Starting timestamp correction...');
+
+      // Connect to Redis and Blockchain
+      await redisClient.connect();
+      await blockchainService.initialize();
+
+      const {
+        dryRun = false,
+        delayBetweenIssuers = this.DELAY_BETWEEN_ISSUERS
+      } = options;
+
+      const addresses = await issuerService.listIssuerAddresses();
+      logger.info(`Found ${addresses.length} issuers to check${dryRun ? ' (dry run)' : ''}`);
+
+      let corrected = 0;
+      let failed = 0;
+
+      for (const address of addresses) {
+        try {
+          const changed = await issuerService.correctTimestamps(
+            address,
+            blockNumber => blockchainService.getBlockTimestamp(blockNumber),
+            dryRun
+          );
+
+          if (changed) {
+            corrected++;
+            logger.info(`${dryRun ? 'Would correct' : 'Corrected'} timestamps for issuer ${address}`);
+          }
+
+          // Delay between issuers to avoid rate limiting
+          if (delayBetweenIssuers > 0) {
+            await this.delay(delayBetweenIssuers);
+          }
+        } catch (error) {
+          failed++;
+          logger.error(`Error correcting timestamps for issuer ${address}:`, error);
+          // Continue with next issuer instead of failing completely
+        }
+      }
+
+      // Time series buckets and decision times depend on the corrected timestamps
+      if (!dryRun && corrected > 0) {
+        await issuerService.rebuildStats(addresses);
+      }
+
+      logger.info(`Timestamp correction completed. ${dryRun ? 'Would correct' : 'Corrected'}: ${corrected}, failed: ${failed}`);
+
+    } catch (error) {
+      logger.error('Timestamp correction failed:', error);
+      throw error;
+    } finally {
+      await this.cleanup();
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private async cleanup(): Promise<void> {
+    try {
+      await blockchainService.disconnect();
+      await redisClient.disconnect();
+      logger.info('Cleanup completed');
+    } catch (error) {
+      logger.error('Error during cleanup:', error);
+    }
+  }
+}
+
+// CLI interface
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const fixTimestampsService = new FixTimestampsService();
+
+  try {
+    const options: FixTimestampsOptions = {
+      dryRun: args.includes('--dry-run')
+    };
+
+    const delayIndex = args.indexOf('--delay');
+    if (delayIndex !== -1 && args[delayIndex + 1]) {
+      options.delayBetweenIssuers = parseInt(args[delayIndex + 1], 10);
+    }
+
+    await fixTimestampsService.run(options);
+
+  } catch (error) {
+    logger.error('Fix timestamps script failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { FixTimestampsService };
+export default new FixTimestampsService();
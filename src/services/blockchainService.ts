@@ -1,25 +1,59 @@
-import { ethers, Contract, WebSocketProvider, JsonRpcProvider, Log } from 'ethers';
+import { ethers, Contract, WebSocketProvider, JsonRpcProvider, Log, isError } from 'ethers';
 import config from '../config';
 import logger from '../utils/logger';
 import { ISSUER_CONTRACT_ABI } from '../contracts/abi';
 import issuerService from './issuerService';
+import deadLetterService from './deadLetterService';
 import redisClient from '../database/redis';
+import eventRegistry from './eventRegistry';
+import { AdaptiveLogFetcher, LogRangeMetrics } from './logRangeFetcher';
+import { RpcEndpointPool, RpcEndpointHealth } from './rpcPool';
+import { registerIssuerEventHandlers } from './issuerEventHandlers';
 import {
-  IssuerApplicationSubmittedEvent,
-  IssuerApprovedEvent,
-  IssuerRejectedEvent,
   EventMetadata,
-  IssuerRevokedEvent
+  IssuerEventType
 } from '../types/issuer';
+import { RawEventLog, DeadLetterStatus } from '../types/deadLetter';
+import { OnchainIssuerInfo } from '../types/onchain';
+import { normalizeIssuerInfo } from '../utils/issuerInfo';
+
+export type IndexerMode = 'idle' | 'catching_up' | 'websocket' | 'reconnecting' | 'polling';
+
+export interface CatchUpProgress {
+  status: 'pending' | 'running' | 'complete' | 'failed';
+  fromBlock?: number;
+  targetBlock?: number;
+  cursor?: number;
+  percent: number;
+  eventsProcessed: number;
+  startedAt?: number;
+  completedAt?: number;
+  error?: string;
+}
+
+interface PendingConfirmation {
+  eventName: string;
+  issuer: string;
+  metadata: EventMetadata;
+  log: RawEventLog;
+}
 
 export class BlockchainService {
   private wsProvider: WebSocketProvider | null = null;
-  private rpcProvider: JsonRpcProvider;
+  private rpcPool: RpcEndpointPool;
   public contract: Contract | null = null;
   private isListening: boolean = false;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private reconnectDelay: number = 5000;
+  private mode: IndexerMode = 'idle';
+
+  // WebSocket liveness properties
+  private wsHeartbeat: NodeJS.Timeout | null = null;
+  private wsHeartbeatIntervalMs: number = 30000; // Probe the socket every 30 seconds
+  private wsHeartbeatTimeoutMs: number = 10000; // Treat the socket as lost after 10 seconds without a reply
+  private wsLastSeenBlock: number | null = null;
+  private gapFillOverlapBlocks: number = 5; // Re-scan a few blocks before the last seen one (ingestion is idempotent)
 
   // Polling service properties
   private isPolling: boolean = false;
@@ -27,9 +61,35 @@ export class BlockchainService {
   private pollingIntervalMs: number = 10000; // Poll every 10 seconds
   private retryDelayMs: number = 5000; // Retry after 5 seconds on error
   private lastBlockRedisKey: string = 'blockchain:lastBlock';
+  private legacyBackfillRedisKey: string = 'backfill:last_processed_block'; // Cursor of the old standalone backfill script
+  private blockHashesRedisKey: string = 'blockchain:blockHashes';
+  private logFetcher: AdaptiveLogFetcher = new AdaptiveLogFetcher(config.blockchain.maxBlockRange);
+
+  // Startup catch-up properties
+  private isCatchingUp: boolean = false;
+  private catchUpProgress: CatchUpProgress = { status: 'pending', percent: 0, eventsProcessed: 0 };
+
+  // Confirmation depth properties
+  private pendingConfirmationsRedisKey: string = 'blockchain:unconfirmed';
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private blockListenerProvider: WebSocketProvider | JsonRpcProvider | null = null; // Provider the listener is attached to
+
+  // Dead-letter retry properties
+  private deadLetterInterval: NodeJS.Timeout | null = null;
+  private isRetryingDeadLetters: boolean = false;
+
+  // Block timestamp cache (block number -> timestamp in ms)
+  private blockTimestampCache: Map<number, Promise<number>> = new Map();
+  private blockTimestampCacheSize: number = 1000;
 
   constructor() {
-    this.rpcProvider = new JsonRpcProvider(config.blockchain.rpcUrl);
+    registerIssuerEventHandlers(eventRegistry);
+    this.rpcPool = new RpcEndpointPool(config.blockchain.rpcUrls, {
+      crossCheck: config.blockchain.rpcCrossCheck,
+      maxBlockLag: config.blockchain.rpcMaxBlockLag,
+      cooldownMs: config.blockchain.rpcCooldown,
+      failureThreshold: config.blockchain.rpcFailureThreshold
+    });
     this.setupWebSocketProvider();
   }
 
@@ -50,15 +110,19 @@ export class BlockchainService {
   private setupWebSocketEventHandlers(): void {
     if (!this.wsProvider) return;
 
-    // WebSocket event handlers for Ethers v6
-    // Note: Ethers v6 WebSocketProvider doesn't expose 'open', 'close', 'error' events directly
-    // We'll handle connection status through other means
+    // Ethers v6 WebSocketProvider doesn't emit 'close' or 'error' itself, so hook the raw socket
+    const socket = this.wsProvider.websocket as any;
+    socket.onclose = (event: { code?: number } | undefined) => {
+      this.handleWebSocketLoss(`socket closed${event && event.code ? ` (code ${event.code})` : ''}`);
+    };
+    socket.onerror = (error: any) => {
+      logger.error('WebSocket error:', error && error.message ? error.message : error);
+    };
 
-    // Listen for network events instead
+    // Listen for network events
     this.wsProvider.on('network', (newNetwork, oldNetwork) => {
       if (newNetwork) {
         logger.info('WebSocket network connected:', newNetwork.name);
-        this.reconnectAttempts = 0;
       }
     });
 
@@ -68,31 +132,234 @@ export class BlockchainService {
     });
   }
 
+  /**
+   * Periodically probe the socket; a half-open connection never reports 'close'
+   */
+  private startWebSocketHeartbeat(): void {
+    if (!this.wsProvider || this.wsHeartbeat) {
+      return;
+    }
+
+    const beat = async () => {
+      const provider = this.wsProvider;
+      if (!provider) {
+        return;
+      }
+
+      try {
+        const blockNumber = await this.withTimeout(provider.getBlockNumber(), this.wsHeartbeatTimeoutMs);
+        this.wsLastSeenBlock = Math.max(this.wsLastSeenBlock ?? 0, blockNumber);
+      } catch (error) {
+        this.handleWebSocketLoss(`heartbeat failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    beat();
+    this.wsHeartbeat = setInterval(beat, this.wsHeartbeatIntervalMs);
+  }
+
+  private stopWebSocketHeartbeat(): void {
+    if (this.wsHeartbeat) {
+      clearInterval(this.wsHeartbeat);
+      this.wsHeartbeat = null;
+    }
+  }
+
+  /**
+   * Drop live subscriptions and the socket without triggering another reconnect
+   */
+  private teardownWebSocket(): void {
+    this.stopWebSocketHeartbeat();
+    this.stopConfirmationWatcher();
+
+    if (this.contract) {
+      this.contract.removeAllListeners().catch(error => {
+        logger.debug('Error removing listeners from closed socket:', error);
+      });
+    }
+    this.isListening = false;
+
+    if (this.wsProvider) {
+      try {
+        (this.wsProvider.websocket as any).onclose = null;
+      } catch {
+        // Socket already released
+      }
+      this.wsProvider.destroy();
+      this.wsProvider = null;
+    }
+  }
+
+  private handleWebSocketLoss(reason: string): void {
+    if (this.mode !== 'websocket') {
+      return;
+    }
+
+    logger.warn(`WebSocket connection lost: ${reason}`, {
+      lastSeenBlock: this.wsLastSeenBlock
+    });
+
+    this.mode = 'reconnecting';
+    this.teardownWebSocket();
+    this.handleWebSocketReconnect();
+  }
+
   private async handleWebSocketReconnect(): Promise<void> {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       logger.error('Max reconnection attempts reached. Switching to polling mode.');
+      await this.switchToPolling();
       return;
     }
 
     this.reconnectAttempts++;
-    logger.info(`Attempting to reconnect WebSocket (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    logger.info(`Attempting to reconnect WebSocket (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms`);
 
-    setTimeout(() => {
-      this.setupWebSocketProvider();
-      if (this.isListening) {
-        this.startListening();
+    setTimeout(async () => {
+      if (this.mode !== 'reconnecting') {
+        return;
       }
-    }, this.reconnectDelay * this.reconnectAttempts);
+
+      try {
+        this.setupWebSocketProvider();
+        if (!this.wsProvider) {
+          throw new Error('WebSocket provider could not be created');
+        }
+
+        const headBlock = await this.withTimeout(this.wsProvider.getBlockNumber(), this.wsHeartbeatTimeoutMs);
+
+        this.contract = new Contract(
+          config.blockchain.contractAddress,
+          ISSUER_CONTRACT_ABI,
+          this.wsProvider
+        );
+        await this.subscribeWithRetry();
+
+        // Catch up on everything emitted while the socket was down
+        await this.fillGap(headBlock);
+
+        this.reconnectAttempts = 0;
+        logger.info('WebSocket reconnected and caught up', { headBlock });
+      } catch (error) {
+        logger.error('WebSocket reconnect failed:', error);
+        this.mode = 'reconnecting';
+        this.teardownWebSocket();
+        await this.handleWebSocketReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Backfill logs from the last block seen over the socket up to the given head
+   */
+  private async fillGap(headBlock: number): Promise<void> {
+    if (this.wsLastSeenBlock === null) {
+      this.wsLastSeenBlock = headBlock;
+      return;
+    }
+
+    const fromBlock = Math.max(0, this.wsLastSeenBlock - this.gapFillOverlapBlocks);
+    if (fromBlock > headBlock) {
+      return;
+    }
+
+    logger.info(`Filling WebSocket gap from block ${fromBlock} to ${headBlock}`);
+
+    const logs = await this.getHistoricalEvents(fromBlock, headBlock);
+    for (const log of logs) {
+      await this.handleLiveLog(log);
+    }
+
+    this.wsLastSeenBlock = Math.max(this.wsLastSeenBlock, headBlock);
+  }
+
+  /**
+   * Ingest logs between the stored cursor and the block the first subscription started at.
+   * Catch-up stops at the confirmed head while the socket only delivers newer events, so
+   * without this the blocks in between are never indexed.
+   */
+  async fillSubscriptionGap(): Promise<void> {
+    const headBlock = this.wsProvider
+      ? await this.withTimeout(this.wsProvider.getBlockNumber(), this.wsHeartbeatTimeoutMs)
+      : await this.getCurrentBlockNumber();
+    const fromBlock = (await this.getLastProcessedBlock()) + 1;
+    if (fromBlock <= headBlock) {
+      logger.info(`Filling gap between catch-up and subscription from block ${fromBlock} to ${headBlock}`);
+
+      const logs = await this.getHistoricalEvents(fromBlock, headBlock);
+      for (const log of logs) {
+        await this.handleLiveLog(log);
+      }
+    }
+
+    this.wsLastSeenBlock = Math.max(this.wsLastSeenBlock ?? 0, headBlock);
+  }
+
+  /**
+   * Give up on the socket and hand off to the polling loop
+   */
+  private async switchToPolling(): Promise<void> {
+    try {
+      this.teardownWebSocket();
+
+      // Make sure polling resumes from where the socket stopped rather than the current head
+      const redis = redisClient.getClient();
+      const storedCursor = await redis.get(this.lastBlockRedisKey);
+      if (!storedCursor && this.wsLastSeenBlock !== null) {
+        await this.updateLastProcessedBlock(Math.max(0, this.wsLastSeenBlock - this.gapFillOverlapBlocks));
+      }
+
+      this.contract = new Contract(
+        config.blockchain.contractAddress,
+        ISSUER_CONTRACT_ABI,
+        this.rpcPool.getPrimaryProvider()
+      );
+      this.reconnectAttempts = 0;
+      this.mode = 'polling';
+
+      // In hybrid mode the sweep is already running and picks up the shorter interval
+      if (!this.isPolling) {
+        await this.startPolling();
+      }
+    } catch (error) {
+      logger.error('Failed to switch to polling mode:', error);
+      this.mode = 'idle';
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  getIndexerMode(): IndexerMode {
+    return this.mode;
   }
 
   async initialize(): Promise<void> {
     try {
       // Test RPC connection
-      const blockNumber = await this.rpcProvider.getBlockNumber();
+      const blockNumber = await this.rpcPool.getBlockNumber();
       logger.info(`Connected to blockchain. Current block: ${blockNumber}`);
 
+      // Reopen the socket if indexing was stopped earlier
+      if (config.blockchain.wssUrl && !this.wsProvider) {
+        this.setupWebSocketProvider();
+      }
+
       // Initialize contract
-      const provider = this.wsProvider || this.rpcProvider;
+      const provider = this.wsProvider || this.rpcPool.getPrimaryProvider();
       this.contract = new Contract(
         config.blockchain.contractAddress,
         ISSUER_CONTRACT_ABI,
@@ -122,88 +389,16 @@ export class BlockchainService {
     // }
 
     try {
-      // Listen to IssuerApplicationSubmitted events
-      this.contract.on('IssuerApplicationSubmitted', async (
-        issuer: string,
-        name: string,
-        requestedCategories: string[],
-        proposedFixedFee: bigint,
-        publicKey: string,
-        stakeAmount: bigint,
-        event: any
-      ) => {
-        await this.handleIssuerApplicationSubmitted({
-          issuer,
-          name,
-          requestedCategories,
-          proposedFixedFee: proposedFixedFee.toString(),
-          publicKey,
-          stakeAmount: stakeAmount.toString()
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      });
-
-      // Listen to IssuerApproved events
-      this.contract.on('IssuerApproved', async (
-        caller: string,
-        issuer: string,
-        attestationUID: string,
-        approveFixedFee: boolean,
-        event: any
-      ) => {
-        const issuerInfo = await this.contract!.getIssuerInfo(issuer);
-        await this.handleIssuerApproved({
-          caller,
-          issuer,
-          attestationUID,
-          approveFixedFee,
-          feePerCategory: Number(issuerInfo.feePerCategory),
-          registrationTime: Number(issuerInfo.registrationTime)
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      });
-
-      // Listen to IssuerRejected events
-      this.contract.on('IssuerRejected', async (
-        caller: string,
-        issuer: string,
-        event: any
-      ) => {
-        await this.handleIssuerRejected({
-          caller,
-          issuer
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      });
+      // Every registered contract event shares the same decoding pipeline
+      for (const eventName of eventRegistry.getEventNames()) {
+        this.contract.on(eventName, this.createLiveListener(eventName));
+      }
 
-      // Listen to IssuerRevoked events
-      this.contract.on('IssuerRevoked', async (
-        caller: string,
-        issuer: string,
-        attestationUID: string,
-        event: any
-      ) => {
-        await this.handleIssuerRevoked({
-          caller,
-          issuer,
-          attestationUID
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      });
+      this.startConfirmationWatcher();
 
       this.isListening = true;
+      this.mode = this.wsProvider ? 'websocket' : 'polling';
+      this.startWebSocketHeartbeat();
       logger.info('Started listening to smart contract events');
     } catch (error) {
       logger.error('Failed to start listening to events:', error);
@@ -218,7 +413,12 @@ export class BlockchainService {
 
     try {
       this.contract.removeAllListeners();
+      this.stopConfirmationWatcher();
+      this.stopWebSocketHeartbeat();
       this.isListening = false;
+      if (this.mode !== 'polling') {
+        this.mode = 'idle';
+      }
       logger.info('Stopped listening to smart contract events');
     } catch (error) {
       logger.error('Error stopping event listeners:', error);
@@ -241,7 +441,12 @@ export class BlockchainService {
     }
 
     this.isPolling = true;
-    logger.info('Starting event polling service with retry mechanism');
+    if (this.mode !== 'websocket') {
+      this.mode = 'polling';
+    }
+    logger.info(this.mode === 'websocket'
+      ? 'Starting reconciliation sweep alongside WebSocket listener'
+      : 'Starting event polling service with retry mechanism');
 
     // Start the polling loop
     this.pollEvents();
@@ -256,6 +461,9 @@ export class BlockchainService {
     }
 
     this.isPolling = false;
+    if (this.mode === 'polling') {
+      this.mode = 'idle';
+    }
 
     if (this.pollingInterval) {
       clearTimeout(this.pollingInterval);
@@ -278,36 +486,29 @@ export class BlockchainService {
       // Get last processed block from Redis
       let lastBlock = await this.getLastProcessedBlock();
 
-      // Get current block number
-      const currentBlock = await this.getCurrentBlockNumber();
+      // Only ingest blocks that have reached the configured confirmation depth
+      const currentBlock = await this.getConfirmedBlockNumber();
+
+      // Rewind to the common ancestor if the chain reorganized under us
+      lastBlock = await this.checkForReorg(lastBlock, currentBlock);
+      lastBlock = await this.checkLiveBlocks(lastBlock);
 
       if (currentBlock > lastBlock) {
         logger.info(`Polling events from block ${lastBlock + 1} to ${currentBlock}`);
+      }
 
-        // Get logs for the range
-        const logs = await this.rpcProvider.getLogs({
-          address: config.blockchain.contractAddress,
-          fromBlock: lastBlock + 1,
-          toBlock: currentBlock,
-        });
-
-        // Process each log
-        for (const log of logs) {
-          await this.processEventLog(log);
-        }
-
-        // Update last processed block in Redis
-        await this.updateLastProcessedBlock(currentBlock);
+      await this.syncRange(lastBlock + 1, currentBlock, () => this.isPolling);
 
-        if (logs.length > 0) {
-          logger.info(`Processed ${logs.length} events from blocks ${lastBlock + 1} to ${currentBlock}`);
-        }
+      // Without the socket's block watcher (after a fallback or a restart into polling),
+      // live events queued for confirmation are settled here
+      if (!this.blockListener) {
+        await this.processConfirmedEvents(currentBlock);
       }
 
       // Schedule next poll
       this.pollingInterval = setTimeout(() => {
         this.pollEvents();
-      }, this.pollingIntervalMs);
+      }, this.getPollingDelay());
 
     } catch (error) {
       logger.error('Polling error:', error);
@@ -320,97 +521,419 @@ export class BlockchainService {
   }
 
   /**
-   * Process a single event log
+   * Ingest every log in [fromBlock, toBlock] in chunks the provider accepts, advancing
+   * the shared cursor after each chunk. Used by polling, startup catch-up and backfill.
+   * Returns the number of logs processed.
    */
-  private async processEventLog(log: Log): Promise<void> {
-    try {
-      const parsed = this.parseLog(log);
-      if (!parsed) {
-        return;
+  async syncRange(
+    fromBlock: number,
+    toBlock: number,
+    shouldContinue: () => boolean = () => true,
+    onProgress?: (cursor: number, eventsProcessed: number) => void
+  ): Promise<number> {
+    let eventsProcessed = 0;
+    let chunkStart = fromBlock;
+
+    while (shouldContinue() && chunkStart <= toBlock) {
+      const chunkEnd = Math.min(chunkStart + this.logFetcher.getSafeRange() - 1, toBlock);
+
+      // Get logs for the chunk, bisecting if the provider rejects its size
+      const logs = await this.logFetcher.fetchRange(chunkStart, chunkEnd, (from, to) =>
+        this.getLogs({
+          address: config.blockchain.contractAddress,
+          fromBlock: from,
+          toBlock: to,
+        })
+      );
+
+      // Process each log
+      for (const log of logs) {
+        await this.processEventLog(log);
       }
 
-      const metadata: EventMetadata = {
-        txHash: log.transactionHash,
-        blockNumber: log.blockNumber,
-        timestamp: Date.now()
-      };
+      // Remember block hashes so the next poll can verify continuity
+      await this.recordBlockHashes(logs, chunkEnd);
 
-      // Handle different event types
-      switch (parsed.eventName) {
-        case 'IssuerApplicationSubmitted':
-          await this.handleIssuerApplicationSubmitted({
-            issuer: parsed.args.issuer,
-            name: parsed.args.name,
-            requestedCategories: parsed.args.requestedCategories,
-            proposedFixedFee: parsed.args.proposedFixedFee.toString(),
-            publicKey: parsed.args.publicKey,
-            stakeAmount: parsed.args.stakeAmount.toString()
-          }, metadata);
-          break;
+      // Update last processed block in Redis
+      await this.updateLastProcessedBlock(chunkEnd);
 
-        case 'IssuerApproved':
-          {
-            const issuerInfo = await this.contract!.getIssuerInfo(parsed.args.issuer);
-            await this.handleIssuerApproved({
-              caller: parsed.args.caller,
-              issuer: parsed.args.issuer,
-              attestationUID: parsed.args.attestationUID,
-              approveFixedFee: parsed.args.approveFixedFee,
-              feePerCategory: Number(issuerInfo.feePerCategory),
-              registrationTime: Number(issuerInfo.registrationTime)
-            }, metadata);
-            break;
-          }
+      eventsProcessed += logs.length;
+      if (logs.length > 0) {
+        logger.info(`Processed ${logs.length} events from blocks ${chunkStart} to ${chunkEnd}`);
+      }
+      if (onProgress) {
+        onProgress(chunkEnd, eventsProcessed);
+      }
 
-        case 'IssuerRejected':
-          await this.handleIssuerRejected({
-            caller: parsed.args.caller,
-            issuer: parsed.args.issuer
-          }, metadata);
-          break;
+      chunkStart = chunkEnd + 1;
+    }
+
+    return eventsProcessed;
+  }
+
+  /**
+   * Bring the cursor up to the confirmed head before live ingestion starts.
+   * Repeats until no new blocks arrived during the previous pass.
+   */
+  async catchUp(): Promise<void> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    this.isCatchingUp = true;
+    this.mode = 'catching_up';
+
+    const startCursor = await this.getLastProcessedBlock();
+    this.catchUpProgress = {
+      status: 'running',
+      fromBlock: startCursor + 1,
+      cursor: startCursor,
+      percent: 0,
+      eventsProcessed: 0,
+      startedAt: Date.now()
+    };
+
+    try {
+      while (this.isCatchingUp) {
+        const targetBlock = await this.getConfirmedBlockNumber();
+        const lastBlock = await this.checkForReorg(await this.getLastProcessedBlock(), targetBlock);
+        this.catchUpProgress.targetBlock = targetBlock;
 
-        case 'IssuerRevoked':
-          await this.handleIssuerRevoked({
-            caller: parsed.args.caller,
-            issuer: parsed.args.issuer,
-            attestationUID: parsed.args.attestationUID
-          }, metadata);
+        if (lastBlock >= targetBlock) {
           break;
-        default:
-          logger.debug(`Unknown event type: ${parsed.eventName}`);
+        }
+
+        logger.info(`Catching up from block ${lastBlock + 1} to ${targetBlock}`);
+
+        const baseEvents = this.catchUpProgress.eventsProcessed;
+        await this.syncRange(lastBlock + 1, targetBlock, () => this.isCatchingUp, (cursor, eventsProcessed) => {
+          const fromBlock = this.catchUpProgress.fromBlock ?? cursor;
+          const total = Math.max(1, targetBlock - fromBlock + 1);
+          this.catchUpProgress.cursor = cursor;
+          this.catchUpProgress.eventsProcessed = baseEvents + eventsProcessed;
+          this.catchUpProgress.percent = Math.min(100, Math.round(((cursor - fromBlock + 1) / total) * 10000) / 100);
+          logger.info(`Catch-up progress: block ${cursor}/${targetBlock} (${this.catchUpProgress.percent}%)`);
+        });
       }
+
+      if (!this.isCatchingUp) {
+        throw new Error('Catch-up interrupted');
+      }
+
+      this.catchUpProgress.status = 'complete';
+      this.catchUpProgress.percent = 100;
+      this.catchUpProgress.cursor = await this.getLastProcessedBlock();
+      this.catchUpProgress.completedAt = Date.now();
+      logger.info('Catch-up complete', {
+        cursor: this.catchUpProgress.cursor,
+        eventsProcessed: this.catchUpProgress.eventsProcessed,
+        durationMs: this.catchUpProgress.completedAt - (this.catchUpProgress.startedAt ?? this.catchUpProgress.completedAt)
+      });
     } catch (error) {
-      logger.error('Error processing event log:', error, { logData: log });
+      this.catchUpProgress.status = 'failed';
+      this.catchUpProgress.error = error instanceof Error ? error.message : String(error);
+      logger.error('Catch-up failed:', error);
+      throw error;
+    } finally {
+      this.isCatchingUp = false;
+      if (this.mode === 'catching_up') {
+        this.mode = 'idle';
+      }
+    }
+  }
+
+  getCatchUpProgress(): CatchUpProgress {
+    return { ...this.catchUpProgress };
+  }
+
+  isCaughtUp(): boolean {
+    return this.catchUpProgress.status === 'complete';
+  }
+
+  /**
+   * While the socket delivers events, polling only reconciles coverage and can run
+   * less often; otherwise it is the primary ingestion path.
+   */
+  private getPollingDelay(): number {
+    return this.mode === 'websocket'
+      ? config.blockchain.reconciliationInterval
+      : this.pollingIntervalMs;
+  }
+
+  /**
+   * Verify that the next block still builds on the last processed one.
+   * Returns the block polling should continue from (the common ancestor after a reorg).
+   */
+  private async checkForReorg(lastBlock: number, currentBlock: number): Promise<number> {
+    const redis = redisClient.getClient();
+    const storedHash = await redis.hget(this.blockHashesRedisKey, lastBlock.toString());
+
+    // Nothing recorded yet, or the provider is behind our cursor
+    if (!storedHash || currentBlock < lastBlock) {
+      return lastBlock;
+    }
+
+    let canonicalHash: string | null = null;
+    if (currentBlock > lastBlock) {
+      const nextBlock = await this.getBlock(lastBlock + 1);
+      canonicalHash = nextBlock ? nextBlock.parentHash : null;
+    } else {
+      const block = await this.getBlock(lastBlock);
+      canonicalHash = block ? block.hash : null;
+    }
+
+    if (!canonicalHash || canonicalHash === storedHash) {
+      return lastBlock;
+    }
+
+    logger.warn('Chain reorganization detected', {
+      block: lastBlock,
+      storedHash,
+      canonicalHash
+    });
+
+    const ancestor = await this.findCommonAncestor(lastBlock);
+    await this.rollbackToBlock(ancestor);
+
+    return ancestor;
+  }
+
+  /**
+   * Verify blocks above the cursor that live listeners already applied. checkForReorg only
+   * sees the cursor block, so a reorg of these would otherwise leave their state in place.
+   * Returns the block the sweep should continue from.
+   */
+  private async checkLiveBlocks(lastBlock: number): Promise<number> {
+    const redis = redisClient.getClient();
+    const recorded = await redis.hgetall(this.blockHashesRedisKey);
+
+    const liveBlocks = Object.keys(recorded)
+      .map(block => parseInt(block, 10))
+      .filter(block => block > lastBlock)
+      .sort((a, b) => a - b);
+
+    for (const blockNumber of liveBlocks) {
+      const block = await this.getBlock(blockNumber);
+
+      // Not served yet; checked again on the next sweep
+      if (!block || block.hash === recorded[blockNumber.toString()]) {
+        continue;
+      }
+
+      logger.warn('Chain reorganization detected above the cursor', {
+        block: blockNumber,
+        storedHash: recorded[blockNumber.toString()],
+        canonicalHash: block.hash
+      });
+
+      // Never move the cursor forward here: the sweep has not verified those blocks yet
+      const ancestor = Math.min(lastBlock, await this.findCommonAncestor(blockNumber));
+      await this.rollbackToBlock(ancestor);
+      return ancestor;
+    }
+
+    return lastBlock;
+  }
+
+  // Remember the hash of a block whose log was applied live, so the sweep can verify it
+  private async recordLiveBlockHash(log: RawEventLog): Promise<void> {
+    try {
+      await redisClient.getClient().hset(this.blockHashesRedisKey, log.blockNumber.toString(), log.blockHash);
+    } catch (error) {
+      logger.error('Error recording live block hash:', error);
+    }
+  }
+
+  /**
+   * Walk back through recorded block hashes until one matches the canonical chain
+   */
+  private async findCommonAncestor(fromBlock: number): Promise<number> {
+    const redis = redisClient.getClient();
+    const recorded = await redis.hgetall(this.blockHashesRedisKey);
+
+    const candidates = Object.keys(recorded)
+      .map(block => parseInt(block, 10))
+      .filter(block => block < fromBlock)
+      .sort((a, b) => b - a);
+
+    for (const blockNumber of candidates) {
+      const block = await this.getBlock(blockNumber);
+      if (block && block.hash === recorded[blockNumber.toString()]) {
+        return blockNumber;
+      }
+    }
+
+    // No recorded hash survived; fall back to the deepest reorg we support
+    return Math.max(0, fromBlock - config.blockchain.maxReorgDepth);
+  }
+
+  /**
+   * Undo issuer changes from orphaned blocks and move the cursor back to the ancestor
+   */
+  private async rollbackToBlock(ancestor: number): Promise<void> {
+    const redis = redisClient.getClient();
+
+    const reverted = await issuerService.revertAfterBlock(ancestor);
+
+    // Failed logs from orphaned blocks must never be replayed
+    const orphanedDeadLetters = await deadLetterService.removeAfterBlock(ancestor);
+
+    const recordedBlocks = await redis.hkeys(this.blockHashesRedisKey);
+    const orphaned = recordedBlocks.filter(block => parseInt(block, 10) > ancestor);
+    if (orphaned.length > 0) {
+      await redis.hdel(this.blockHashesRedisKey, ...orphaned);
     }
+
+    await this.updateLastProcessedBlock(ancestor);
+
+    logger.warn(`Rolled back to common ancestor block ${ancestor}`, {
+      revertedEvents: reverted,
+      orphanedBlocks: orphaned.length,
+      orphanedDeadLetters
+    });
   }
 
   /**
-   * Get last processed block from Redis
+   * Record hashes for blocks that produced logs and for the new cursor block,
+   * pruning anything deeper than the supported reorg depth
    */
-  private async getLastProcessedBlock(): Promise<number> {
+  private async recordBlockHashes(logs: Log[], currentBlock: number): Promise<void> {
     try {
       const redis = redisClient.getClient();
-      const lastBlockStr = await redis.get(this.lastBlockRedisKey);
+      const hashes: Record<string, string> = {};
+
+      for (const log of logs) {
+        hashes[log.blockNumber.toString()] = log.blockHash;
+      }
+
+      const tip = await this.getBlock(currentBlock);
+      if (tip && tip.hash) {
+        hashes[currentBlock.toString()] = tip.hash;
+      }
+
+      if (Object.keys(hashes).length > 0) {
+        await redis.hset(this.blockHashesRedisKey, hashes);
+      }
 
-      if (lastBlockStr) {
-        return parseInt(lastBlockStr, 10);
+      const pruneBelow = currentBlock - config.blockchain.maxReorgDepth;
+      const stale = (await redis.hkeys(this.blockHashesRedisKey))
+        .filter(block => parseInt(block, 10) < pruneBelow);
+      if (stale.length > 0) {
+        await redis.hdel(this.blockHashesRedisKey, ...stale);
       }
 
-      // If no last block in Redis, start from current block
-      const currentBlock = await this.getCurrentBlockNumber();
-      await this.updateLastProcessedBlock(currentBlock);
-      return currentBlock;
+      await issuerService.pruneJournal(pruneBelow);
     } catch (error) {
-      logger.error('Error getting last processed block from Redis:', error);
-      // Fallback to current block
-      return await this.getCurrentBlockNumber();
+      logger.error('Error recording block hashes:', error);
     }
   }
 
+  /**
+   * Process a single event log
+   */
+  private async processEventLog(log: RawEventLog): Promise<void> {
+    try {
+      await this.ingestLog(log);
+    } catch (error) {
+      logger.error('Error processing event log:', error, { logData: log });
+      await this.deadLetter(log, error);
+    }
+  }
+
+  /**
+   * Decode and apply a single event log through its registered handler, throwing on failure.
+   * This is the single ingestion path used by live listeners, polling, backfill and replays.
+   */
+  async ingestLog(log: RawEventLog): Promise<void> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    const parsed = this.parseLog(log);
+    if (!parsed) {
+      return;
+    }
+
+    const handler = eventRegistry.get(parsed.eventName);
+    if (!handler) {
+      logger.debug(`No handler registered for event type: ${parsed.eventName}`);
+      return;
+    }
+
+    // The live and polling paths see the same logs; skip the decode if one already applied it
+    if (await issuerService.isEventProcessed({ txHash: log.transactionHash, logIndex: log.index })) {
+      logger.debug(`Skipping already processed ${parsed.eventName} event`, {
+        txHash: log.transactionHash,
+        logIndex: log.index
+      });
+      return;
+    }
+
+    const metadata = await this.buildEventMetadata(log);
+    const event = await handler.decode(parsed.args, {
+      readContract: call => this.readContract(call)
+    });
+
+    logger.info(`Processing ${parsed.eventName} event`, {
+      ...event,
+      txHash: metadata.txHash,
+      blockNumber: metadata.blockNumber,
+      logIndex: metadata.logIndex
+    });
+
+    try {
+      await handler.handle(event, metadata);
+    } catch (error) {
+      logger.error(`Error handling ${parsed.eventName} event:`, error);
+      throw error;
+    }
+  }
+
+  private async buildEventMetadata(log: RawEventLog): Promise<EventMetadata> {
+    return {
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      timestamp: await this.getBlockTimestamp(log.blockNumber)
+    };
+  }
+
+  /**
+   * Get last processed block from Redis. Without a stored cursor, indexing starts at
+   * START_BLOCK (or where the old standalone backfill script stopped).
+   */
+  async getLastProcessedBlock(): Promise<number> {
+    const redis = redisClient.getClient();
+    const lastBlockStr = await redis.get(this.lastBlockRedisKey);
+
+    if (lastBlockStr) {
+      return parseInt(lastBlockStr, 10);
+    }
+
+    const legacyBlockStr = await redis.get(this.legacyBackfillRedisKey);
+    if (legacyBlockStr) {
+      const legacyBlock = parseInt(legacyBlockStr, 10);
+      logger.info(`Adopting legacy backfill cursor at block ${legacyBlock}`);
+      await this.updateLastProcessedBlock(legacyBlock);
+      await redis.del(this.legacyBackfillRedisKey);
+      return legacyBlock;
+    }
+
+    return Math.max(0, config.blockchain.startBlock) - 1;
+  }
+
+  /**
+   * Forget indexing progress so the next sync starts again from START_BLOCK
+   */
+  async resetLastProcessedBlock(): Promise<void> {
+    const redis = redisClient.getClient();
+    await redis.del(this.lastBlockRedisKey, this.legacyBackfillRedisKey);
+  }
+
   /**
    * Update last processed block in Redis
    */
-  private async updateLastProcessedBlock(blockNumber: number): Promise<void> {
+  async updateLastProcessedBlock(blockNumber: number): Promise<void> {
     try {
       const redis = redisClient.getClient();
       await redis.set(this.lastBlockRedisKey, blockNumber.toString());
@@ -446,187 +969,286 @@ export class BlockchainService {
       subscribe();
     };
 
-    // Subscribe to IssuerApplicationSubmitted with retry
-    subscribeToEvent('IssuerApplicationSubmitted', async (
-      issuer: string,
-      name: string,
-      requestedCategories: string[],
-      proposedFixedFee: bigint,
-      publicKey: string,
-      stakeAmount: bigint,
-      event: any
-    ) => {
-      try {
-        await this.handleIssuerApplicationSubmitted({
-          issuer,
-          name,
-          requestedCategories,
-          proposedFixedFee: proposedFixedFee.toString(),
-          publicKey,
-          stakeAmount: stakeAmount.toString()
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error handling IssuerApplicationSubmitted event:', error);
-      }
-    });
+    for (const eventName of eventRegistry.getEventNames()) {
+      subscribeToEvent(eventName, this.createLiveListener(eventName));
+    }
 
-    // Subscribe to IssuerApproved with retry
-    subscribeToEvent('IssuerApproved', async (
-      caller: string,
-      issuer: string,
-      attestationUID: string,
-      approveFixedFee: boolean,
-      event: any
-    ) => {
-      try {
-        const issuerInfo = await this.contract!.getIssuerInfo(event.issuer);
-        await this.handleIssuerApproved({
-          caller,
-          issuer,
-          attestationUID,
-          approveFixedFee,
-          feePerCategory: Number(issuerInfo.feePerCategory),
-          registrationTime: Number(issuerInfo.registrationTime)
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error handling IssuerApproved event:', error);
-      }
-    });
+    this.startConfirmationWatcher();
 
-    // Subscribe to IssuerRejected with retry
-    subscribeToEvent('IssuerRejected', async (
-      caller: string,
-      issuer: string,
-      event: any
-    ) => {
-      try {
-        await this.handleIssuerRejected({
-          caller,
-          issuer
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error handling IssuerRejected event:', error);
-      }
-    });
+    this.isListening = true;
+    this.mode = this.wsProvider ? 'websocket' : 'polling';
+    this.startWebSocketHeartbeat();
+    logger.info('Started event subscription with retry mechanism');
+  }
 
-    subscribeToEvent('IssuerRevoked', async (
-      caller: string,
-      issuer: string,
-      attestationUID: string,
-      event: any
-    ) => {
-      try {
-        await this.handleIssuerRevoked({
-          caller,
-          issuer,
-          attestationUID
-        }, {
-          txHash: event.log.transactionHash,
-          blockNumber: event.log.blockNumber,
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error handling IssuerApproved event:', error);
-      }
+  /**
+   * Build a contract listener that unwraps the event payload and routes its
+   * raw log through the shared ingestion pipeline
+   */
+  private createLiveListener(eventName: string): (...args: any[]) => Promise<void> {
+    return async (...args: any[]) => {
+      // ethers passes the ContractEventPayload as the last listener argument
+      const log: RawEventLog = args[args.length - 1].log;
+      this.wsLastSeenBlock = Math.max(this.wsLastSeenBlock ?? 0, log.blockNumber);
+
+      await this.handleLiveLog(log, eventName);
+    };
+  }
+
+  private async handleLiveLog(log: RawEventLog, eventName?: string): Promise<void> {
+    try {
+      await this.processLiveLog(log);
+    } catch (error) {
+      logger.error(`Error handling ${eventName || 'live'} event:`, error);
+      await this.deadLetter(log, error, eventName);
+    }
+  }
+
+  /**
+   * Ingest a live (head-of-chain) log immediately or, when a confirmation
+   * depth is configured, queue it until it is buried deep enough
+   */
+  private async processLiveLog(log: RawEventLog): Promise<void> {
+    if (config.blockchain.confirmations <= 0) {
+      await this.ingestLog(log);
+      await this.recordLiveBlockHash(log);
+      return;
+    }
+
+    const parsed = this.parseLog(log);
+    if (!parsed) {
+      return;
+    }
+
+    const metadata = await this.buildEventMetadata(log);
+    const pending: PendingConfirmation = {
+      eventName: parsed.eventName,
+      issuer: parsed.args.issuer,
+      metadata,
+      log: deadLetterService.toRawLog(log)
+    };
+
+    await redisClient.getClient().zadd(
+      this.pendingConfirmationsRedisKey,
+      metadata.blockNumber,
+      JSON.stringify(pending)
+    );
+
+    if (config.blockchain.unconfirmedOverlay && this.isIssuerEventType(parsed.eventName)) {
+      await issuerService.setUnconfirmedChange(pending.issuer, parsed.eventName, metadata);
+    }
+
+    logger.info(`Queued ${parsed.eventName} until ${config.blockchain.confirmations} confirmations`, {
+      issuer: pending.issuer,
+      txHash: metadata.txHash,
+      blockNumber: metadata.blockNumber
     });
+  }
 
-    this.isListening = true;
-    logger.info('Started event subscription with retry mechanism');
+  private isIssuerEventType(eventName: string): eventName is IssuerEventType {
+    return (Object.values(IssuerEventType) as string[]).includes(eventName);
   }
 
-  private async handleIssuerApplicationSubmitted(
-    event: IssuerApplicationSubmittedEvent,
-    metadata: EventMetadata
-  ): Promise<void> {
+  /**
+   * Apply queued live events whose blocks are now deep enough, dropping any
+   * whose block is no longer part of the canonical chain
+   */
+  private async processConfirmedEvents(confirmedBlock: number): Promise<void> {
+    const redis = redisClient.getClient();
+
     try {
-      logger.info('Processing IssuerApplicationSubmitted event', {
-        issuer: event.issuer,
-        name: event.name,
-        txHash: metadata.txHash,
-        blockNumber: metadata.blockNumber
-      });
+      const entries = await redis.zrangebyscore(this.pendingConfirmationsRedisKey, '-inf', confirmedBlock);
+
+      for (const raw of entries) {
+        const pending = JSON.parse(raw) as PendingConfirmation;
+        const block = await this.getBlock(pending.metadata.blockNumber);
+
+        if (block && block.hash === pending.log.blockHash) {
+          try {
+            await this.ingestLog(pending.log);
+            await this.recordLiveBlockHash(pending.log);
+          } catch (error) {
+            await this.deadLetter(pending.log, error, pending.eventName);
+          }
+        } else {
+          logger.warn(`Dropping ${pending.eventName} from orphaned block`, {
+            issuer: pending.issuer,
+            txHash: pending.metadata.txHash,
+            blockNumber: pending.metadata.blockNumber
+          });
+        }
 
-      await issuerService.handleApplicationSubmitted(event, metadata);
+        await redis.zrem(this.pendingConfirmationsRedisKey, raw);
+        await issuerService.clearUnconfirmedChange(pending.issuer, pending.metadata);
+      }
     } catch (error) {
-      logger.error('Error handling IssuerApplicationSubmitted event:', error);
-      // Implement retry logic here if needed
+      logger.error('Error processing confirmed events:', error);
+    }
+  }
+
+  private startConfirmationWatcher(): void {
+    if (config.blockchain.confirmations <= 0 || this.blockListener) {
+      return;
+    }
+
+    const provider = this.wsProvider || this.rpcPool.getPrimaryProvider();
+    this.blockListener = (blockNumber: number) => {
+      this.processConfirmedEvents(blockNumber - config.blockchain.confirmations);
+    };
+    provider.on('block', this.blockListener);
+    this.blockListenerProvider = provider;
+
+    logger.info(`Live events will be applied after ${config.blockchain.confirmations} confirmations`);
+  }
+
+  private stopConfirmationWatcher(): void {
+    if (!this.blockListener) {
+      return;
     }
+
+    // Detach from the provider it was attached to; the WebSocket or primary endpoint may have changed since
+    this.blockListenerProvider?.off('block', this.blockListener).catch(error => {
+      logger.debug('Error removing block listener:', error);
+    });
+    this.blockListener = null;
+    this.blockListenerProvider = null;
   }
 
-  private async handleIssuerApproved(
-    event: IssuerApprovedEvent,
-    metadata: EventMetadata
-  ): Promise<void> {
+  /**
+   * Persist a failed event log to the dead-letter queue for later retry
+   */
+  private async deadLetter(log: RawEventLog, error: unknown, eventName?: string): Promise<void> {
     try {
-      logger.info('Processing IssuerApproved event', {
-        caller: event.caller,
-        issuer: event.issuer,
-        attestationUID: event.attestationUID,
-        txHash: metadata.txHash,
-        blockNumber: metadata.blockNumber,
-        approveFixedFee: event.approveFixedFee,
-        feePerCategory: event.feePerCategory,
-        registrationTime: event.registrationTime
-      });
-      await issuerService.handleIssuerApproved(event, metadata);
-    } catch (error) {
-      logger.error('Error handling IssuerApproved event:', error);
-      // Implement retry logic here if needed
+      await deadLetterService.recordFailure(log, error, eventName);
+    } catch (storeError) {
+      logger.error('Failed to dead-letter event log:', storeError, { logData: log });
     }
   }
 
-  private async handleIssuerRevoked(
-    event: IssuerRevokedEvent,
-    metadata: EventMetadata
-  ): Promise<void> {
+  /**
+   * Re-run a dead-lettered event. Successful replays are removed from the queue,
+   * failures are recorded as another attempt. Logs from orphaned blocks are dropped and
+   * logs older than the issuer's latest applied event are rejected (`rejected: true`),
+   * since applying them would roll the issuer back.
+   */
+  async replayDeadLetter(id: string): Promise<{ success: boolean; rejected?: boolean; error?: string }> {
+    const entry = await deadLetterService.get(id);
+    if (!entry) {
+      throw new Error(`Dead-letter entry ${id} not found`);
+    }
+
     try {
-      logger.info('Processing IssuerRevoked event', {
-        caller: event.caller,
-        issuer: event.issuer,
-        attestationUID: event.attestationUID,
-        txHash: metadata.txHash,
-        blockNumber: metadata.blockNumber
-      });
+      const conflict = await this.getReplayConflict(entry.log);
+      if (conflict) {
+        if (conflict.orphaned) {
+          await deadLetterService.remove(id);
+        } else {
+          await deadLetterService.reject(id, conflict.reason);
+        }
+        return { success: false, rejected: true, error: conflict.reason };
+      }
 
-      await issuerService.handleIssuerRevoked(event, metadata);
+      await this.ingestLog(entry.log);
+      await deadLetterService.remove(id);
+
+      logger.info('Dead-letter entry replayed successfully', { id, eventName: entry.eventName });
+      return { success: true };
     } catch (error) {
-      logger.error('Error handling IssuerRevoked event:', error);
-      // Implement retry logic here if needed
+      await this.deadLetter(entry.log, error, entry.eventName);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
   }
 
+  // Why a dead-lettered log must not be applied anymore; null when it can be replayed
+  private async getReplayConflict(log: RawEventLog): Promise<{ reason: string; orphaned: boolean } | null> {
+    const block = await this.getBlock(log.blockNumber);
+    if (!block) {
+      throw new Error(`Block ${log.blockNumber} not found`);
+    }
+    if (block.hash !== log.blockHash) {
+      return { reason: `Block ${log.blockNumber} is no longer part of the chain`, orphaned: true };
+    }
+
+    // Already applied through another path; ingestLog skips it and the entry is cleared
+    if (await issuerService.isEventProcessed({ txHash: log.transactionHash, logIndex: log.index })) {
+      return null;
+    }
+
+    const parsed = this.parseLog(log);
+    if (!parsed?.args?.issuer) {
+      return null;
+    }
+
+    const last = await issuerService.getLastAppliedEvent(parsed.args.issuer);
+    if (last && (last.blockNumber > log.blockNumber || (last.blockNumber === log.blockNumber && last.logIndex > log.index))) {
+      return {
+        reason: `Issuer already has a later event applied (block ${last.blockNumber}, log ${last.logIndex})`,
+        orphaned: false
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Periodically retry dead-lettered events whose backoff has elapsed
+   */
+  startDeadLetterRetries(): void {
+    if (this.deadLetterInterval) {
+      return;
+    }
+
+    this.deadLetterInterval = setInterval(() => {
+      this.retryDueDeadLetters();
+    }, config.deadLetter.retryInterval);
+
+    logger.info('Started dead-letter retry loop');
+  }
+
+  stopDeadLetterRetries(): void {
+    if (this.deadLetterInterval) {
+      clearInterval(this.deadLetterInterval);
+      this.deadLetterInterval = null;
+    }
+  }
+
+  private async retryDueDeadLetters(): Promise<void> {
+    if (this.isRetryingDeadLetters || !this.contract) {
+      return;
+    }
 
-  private async handleIssuerRejected(
-    event: IssuerRejectedEvent,
-    metadata: EventMetadata
-  ): Promise<void> {
+    this.isRetryingDeadLetters = true;
     try {
-      logger.info('Processing IssuerRejected event', {
-        caller: event.caller,
-        issuer: event.issuer,
-        txHash: metadata.txHash,
-        blockNumber: metadata.blockNumber
-      });
+      const dueIds = await deadLetterService.getDueIds();
 
-      await issuerService.handleIssuerRejected(event, metadata);
+      for (const id of dueIds) {
+        const result = await this.replayDeadLetter(id);
+        if (!result.success) {
+          logger.warn('Dead-letter retry failed', { id, error: result.error });
+        }
+      }
     } catch (error) {
-      logger.error('Error handling IssuerRejected event:', error);
-      // Implement retry logic here if needed
+      logger.error('Error retrying dead-letter entries:', error);
+    } finally {
+      this.isRetryingDeadLetters = false;
     }
   }
 
+  async getDeadLetterCounts(): Promise<Record<DeadLetterStatus, number>> {
+    const [retrying, exhausted] = await Promise.all([
+      deadLetterService.count(DeadLetterStatus.RETRYING),
+      deadLetterService.count(DeadLetterStatus.EXHAUSTED)
+    ]);
+
+    return {
+      [DeadLetterStatus.RETRYING]: retrying,
+      [DeadLetterStatus.EXHAUSTED]: exhausted
+    };
+  }
+
   // Get historical events using getLogs
   async getHistoricalEvents(fromBlock: number, toBlock: number | 'latest' = 'latest'): Promise<Log[]> {
     try {
@@ -634,26 +1256,19 @@ export class BlockchainService {
         throw new Error('Contract not initialized');
       }
 
-      const submittedEvent = this.contract!.interface.getEvent('IssuerApplicationSubmitted');
-      const approvedEvent = this.contract!.interface.getEvent('IssuerApproved');
-      const rejectedEvent = this.contract!.interface.getEvent('IssuerRejected');
-      const revokedEvent = this.contract!.interface.getEvent('IssuerRevoked');
-
-      const filter = {
-        address: config.blockchain.contractAddress,
-        fromBlock,
-        toBlock,
-        topics: [
-          [
-            submittedEvent!.topicHash,
-            approvedEvent!.topicHash,
-            rejectedEvent!.topicHash,
-            revokedEvent!.topicHash
-          ]
-        ]
-      };
+      const topicHashes = eventRegistry.getEventNames()
+        .map(eventName => this.contract!.interface.getEvent(eventName)!.topicHash);
+
+      const endBlock = toBlock === 'latest' ? await this.getCurrentBlockNumber() : toBlock;
 
-      const logs = await this.rpcProvider.getLogs(filter);
+      const logs = await this.logFetcher.fetch(fromBlock, endBlock, (rangeStart, rangeEnd) =>
+        this.getLogs({
+          address: config.blockchain.contractAddress,
+          fromBlock: rangeStart,
+          toBlock: rangeEnd,
+          topics: [topicHashes]
+        })
+      );
       logger.info(`Retrieved ${logs.length} historical events from block ${fromBlock} to ${toBlock}`);
 
       return logs;
@@ -664,7 +1279,7 @@ export class BlockchainService {
   }
 
   // Parse log to event data
-  parseLog(log: Log): { eventName: string; args: any } | null {
+  parseLog(log: { topics: ReadonlyArray<string>; data: string }): { eventName: string; args: any } | null {
     try {
       if (!this.contract) {
         throw new Error('Contract not initialized');
@@ -689,26 +1304,132 @@ export class BlockchainService {
     }
   }
 
+  getRpcEndpointHealth(): RpcEndpointHealth[] {
+    return this.rpcPool.getEndpointHealth();
+  }
+
+  private async getBlock(blockNumber: number) {
+    return await this.rpcPool.execute('getBlock', provider => provider.getBlock(blockNumber));
+  }
+
+  // Oversized ranges are split by the log fetcher rather than failed over; only endpoints
+  // known to have the last block of the range may answer
+  private async getLogs(filter: ethers.Filter): Promise<Log[]> {
+    return await this.rpcPool.execute(
+      'getLogs',
+      provider => provider.getLogs(filter),
+      error => !this.logFetcher.isRangeError(error),
+      typeof filter.toBlock === 'number' ? filter.toBlock : undefined
+    );
+  }
+
+  /**
+   * Run a read-only contract call through the RPC pool. Reverts are returned as-is;
+   * transport failures fail over to the next endpoint.
+   */
+  async readContract<T>(call: (contract: Contract) => Promise<T>): Promise<T> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    const contract = this.contract;
+    return await this.rpcPool.execute(
+      'contract call',
+      provider => call(contract.connect(provider) as Contract),
+      error => !isError(error, 'CALL_EXCEPTION')
+    );
+  }
+
+  // Read the registry entry of an issuer at a block (the current head by default), normalized to JSON
+  async getIssuerInfo(address: string, blockTag?: number): Promise<OnchainIssuerInfo> {
+    const blockNumber = blockTag ?? await this.getCurrentBlockNumber();
+    const info = await this.readContract(contract => contract.getIssuerInfo(address.toLowerCase(), { blockTag: blockNumber }));
+
+    return {
+      ...normalizeIssuerInfo(address, info),
+      blockNumber
+    };
+  }
+
+  getLogRangeMetrics(): LogRangeMetrics {
+    return this.logFetcher.getMetrics();
+  }
+
   async getCurrentBlockNumber(): Promise<number> {
-    return await this.rpcProvider.getBlockNumber();
+    return await this.rpcPool.getBlockNumber();
+  }
+
+  async getConfirmedBlockNumber(): Promise<number> {
+    const currentBlock = await this.getCurrentBlockNumber();
+    return Math.max(0, currentBlock - config.blockchain.confirmations);
   }
 
   async getBlockTimestamp(blockNumber: number): Promise<number> {
-    const block = await this.rpcProvider.getBlock(blockNumber);
-    return block ? block.timestamp * 1000 : Date.now(); // Convert to milliseconds
+    // Share one getBlock call between every log in the same block
+    const cached = this.blockTimestampCache.get(blockNumber);
+    if (cached) {
+      return cached;
+    }
+
+    const pending = this.getBlock(blockNumber)
+      .then(block => {
+        if (!block) {
+          // Not available from this provider yet; fail so the log is retried with its real time
+          throw new Error(`Block ${blockNumber} not found`);
+        }
+        return block.timestamp * 1000; // Convert to milliseconds
+      })
+      .catch(error => {
+        this.blockTimestampCache.delete(blockNumber);
+        throw error;
+      });
+
+    this.blockTimestampCache.set(blockNumber, pending);
+    if (this.blockTimestampCache.size > this.blockTimestampCacheSize) {
+      const oldest = this.blockTimestampCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.blockTimestampCache.delete(oldest);
+      }
+    }
+
+    return pending;
   }
 
   isHealthy(): boolean {
-    return this.contract !== null && this.rpcProvider !== null;
+    return this.contract !== null && this.rpcPool.hasAvailableEndpoint();
   }
 
-  async disconnect(): Promise<void> {
+  // Make a running catch-up stop after its current batch and throw 'Catch-up interrupted'
+  interruptCatchUp(): void {
+    this.isCatchingUp = false;
+  }
+
+  /**
+   * Stop all ingestion while keeping RPC access for API reads (e.g. after losing leadership)
+   */
+  async stopIndexing(): Promise<void> {
+    this.isCatchingUp = false;
     await this.stopListening();
     await this.stopPolling();
+    this.stopDeadLetterRetries();
 
-    if (this.wsProvider) {
-      this.wsProvider.destroy();
+    // Prevent the socket close from triggering a reconnect
+    this.mode = 'idle';
+    this.teardownWebSocket();
+    this.reconnectAttempts = 0;
+
+    if (this.contract) {
+      this.contract = new Contract(
+        config.blockchain.contractAddress,
+        ISSUER_CONTRACT_ABI,
+        this.rpcPool.getPrimaryProvider()
+      );
     }
+  }
+
+  async disconnect(): Promise<void> {
+    await this.stopIndexing();
+    this.rpcPool.destroy();
 
     logger.info('Blockchain service disconnected');
   }
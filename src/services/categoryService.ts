@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import Redis from 'ioredis';
+import { getBytes, toUtf8String } from 'ethers';
+import redisClient from '../database/redis';
+import logger from '../utils/logger';
+import { CategoryDefinition, DecodedCategory } from '../types/category';
+
+// Registry reads are cached briefly so decorating every issuer response stays cheap
+const REGISTRY_CACHE_TTL = 30000;
+
+export class CategoryService {
+  private redis: Redis;
+  private cache: Map<string, CategoryDefinition> | null = null;
+  private cacheLoadedAt: number = 0;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  // Redis key generators
+  private getRegistryKey(): string {
+    return 'categories';
+  }
+
+  normalizeId(id: string): string {
+    return id.toLowerCase();
+  }
+
+  // List every registered category, ordered by label
+  async list(): Promise<CategoryDefinition[]> {
+    const registry = await this.getRegistry();
+    return [...registry.values()].sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async get(id: string): Promise<CategoryDefinition | null> {
+    const raw = await this.redis.hget(this.getRegistryKey(), this.normalizeId(id));
+    return raw ? JSON.parse(raw) as CategoryDefinition : null;
+  }
+
+  // Create or replace the label and description of a category
+  async upsert(id: string, definition: { label: string; description?: string }): Promise<CategoryDefinition> {
+    try {
+      const category: CategoryDefinition = {
+        id: this.normalizeId(id),
+        label: definition.label,
+        description: definition.description,
+        updatedAt: Date.now()
+      };
+
+      await this.redis.hset(this.getRegistryKey(), category.id, JSON.stringify(category));
+      this.cache = null;
+
+      logger.info('Category registered', { id: category.id, label: category.label });
+      return category;
+    } catch (error) {
+      logger.error('Error registering category:', error);
+      throw error;
+    }
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const removed = await this.redis.hdel(this.getRegistryKey(), this.normalizeId(id));
+    this.cache = null;
+    return removed === 1;
+  }
+
+  /**
+   * Load categories from a JSON file holding an array of { id, label, description }.
+   * Existing entries are kept unless `overwrite` is set, so admin edits survive restarts.
+   */
+  async seedFromFile(filePath: string, overwrite: boolean = false): Promise<number> {
+    try {
+      const entries = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      if (!Array.isArray(entries)) {
+        throw new Error(`Category seed file ${filePath} must contain a JSON array`);
+      }
+
+      let seeded = 0;
+      for (const entry of entries) {
+        if (!entry || !/^0x[a-fA-F0-9]{64}$/.test(entry.id) || typeof entry.label !== 'string') {
+          logger.warn('Skipping invalid category seed entry', { entry });
+          continue;
+        }
+
+        const id = this.normalizeId(entry.id);
+        if (!overwrite && await this.redis.hexists(this.getRegistryKey(), id)) {
+          continue;
+        }
+
+        await this.upsert(id, { label: entry.label, description: entry.description });
+        seeded++;
+      }
+
+      logger.info(`Seeded ${seeded} categories from ${filePath}`);
+      return seeded;
+    } catch (error) {
+      logger.error('Error seeding categories:', error);
+      throw error;
+    }
+  }
+
+  // Resolve raw bytes32 category ids to registry labels, falling back to UTF-8 decoding
+  async decodeMany(ids: string[]): Promise<DecodedCategory[]> {
+    const registry = await this.getRegistry();
+    return ids.map(id => this.decodeWith(registry, id));
+  }
+
+  // Decorate issuers in place with decoded categories (one registry read for all of them)
+  async attachCategories<T extends { requestedCategories: string[]; categories?: DecodedCategory[] }>(
+    issuers: T[]
+  ): Promise<T[]> {
+    if (issuers.length === 0) {
+      return issuers;
+    }
+
+    try {
+      const registry = await this.getRegistry();
+      for (const issuer of issuers) {
+        issuer.categories = issuer.requestedCategories.map(id => this.decodeWith(registry, id));
+      }
+    } catch (error) {
+      // Labels are a convenience; never fail an issuer read because of them
+      logger.warn('Failed to decode issuer categories:', error);
+    }
+
+    return issuers;
+  }
+
+  private decodeWith(registry: Map<string, CategoryDefinition>, id: string): DecodedCategory {
+    const normalized = this.normalizeId(id);
+    const registered = registry.get(normalized);
+    if (registered) {
+      return {
+        id: normalized,
+        label: registered.label,
+        description: registered.description,
+        source: 'registry'
+      };
+    }
+
+    const label = this.decodeBytes32String(normalized);
+    return {
+      id: normalized,
+      label,
+      source: label ? 'utf8' : 'unknown'
+    };
+  }
+
+  // Short strings are commonly packed into bytes32 left-aligned and zero padded
+  decodeBytes32String(id: string): string | null {
+    if (!/^0x[a-f0-9]{64}$/.test(id)) {
+      return null;
+    }
+
+    try {
+      const bytes = getBytes(id);
+      let end = bytes.length;
+      while (end > 0 && bytes[end - 1] === 0) {
+        end--;
+      }
+      if (end === 0 || bytes.subarray(0, end).includes(0)) {
+        return null;
+      }
+
+      const text = toUtf8String(bytes.subarray(0, end));
+      return /^[^\u0000-\u001f\u007f-\u009f]+$/.test(text) ? text : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getRegistry(): Promise<Map<string, CategoryDefinition>> {
+    if (this.cache && Date.now() - this.cacheLoadedAt < REGISTRY_CACHE_TTL) {
+      return this.cache;
+    }
+
+    const raw = await this.redis.hgetall(this.getRegistryKey());
+    const registry = new Map<string, CategoryDefinition>();
+    for (const [id, value] of Object.entries(raw || {})) {
+      try {
+        registry.set(id, JSON.parse(value) as CategoryDefinition);
+      } catch {
+        logger.warn('Ignoring malformed category entry', { id });
+      }
+    }
+
+    this.cache = registry;
+    this.cacheLoadedAt = Date.now();
+    return registry;
+  }
+}
+
+export default new CategoryService();
@@ -0,0 +1,217 @@
+import Redis from 'ioredis';
+import config from '../config';
+import redisClient from '../database/redis';
+import logger from '../utils/logger';
+import {
+  RawEventLog,
+  DeadLetterEntry,
+  DeadLetterStatus,
+  DeadLetterQueryParams,
+  DeadLetterListResponse
+} from '../types/deadLetter';
+
+export class DeadLetterService {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  // Redis key generators
+  private getEntryKey(id: string): string {
+    return `dlq:entry:${id}`;
+  }
+
+  private getIndexKey(status?: DeadLetterStatus): string {
+    return status ? `dlq:entries:${status}` : 'dlq:entries';
+  }
+
+  private getRetryKey(): string {
+    return 'dlq:retry';
+  }
+
+  getEntryId(log: { transactionHash: string; index: number }): string {
+    return `${log.transactionHash.toLowerCase()}:${log.index}`;
+  }
+
+  // Exponential backoff capped at the configured maximum delay
+  private getRetryDelay(attempts: number): number {
+    const delay = config.deadLetter.retryBaseDelay * Math.pow(2, Math.max(0, attempts - 1));
+    return Math.min(delay, config.deadLetter.retryMaxDelay);
+  }
+
+  // Normalize an ethers Log (or an already serialized log) for storage
+  toRawLog(log: RawEventLog): RawEventLog {
+    return {
+      address: log.address,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      index: log.index,
+      topics: [...log.topics],
+      data: log.data
+    };
+  }
+
+  // Record a failed event, or another failed attempt of an existing entry
+  async recordFailure(log: RawEventLog, error: unknown, eventName?: string): Promise<DeadLetterEntry> {
+    try {
+      const id = this.getEntryId(log);
+      const now = Date.now();
+      const existing = await this.get(id);
+
+      const attempts = existing ? existing.attempts + 1 : 1;
+      const exhausted = attempts >= config.deadLetter.maxAttempts;
+
+      const entry: DeadLetterEntry = {
+        id,
+        eventName: eventName || existing?.eventName,
+        log: this.toRawLog(log),
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+        status: exhausted ? DeadLetterStatus.EXHAUSTED : DeadLetterStatus.RETRYING,
+        firstFailedAt: existing ? existing.firstFailedAt : now,
+        lastFailedAt: now,
+        nextRetryAt: exhausted ? undefined : now + this.getRetryDelay(attempts)
+      };
+
+      const pipeline = this.redis.pipeline();
+      pipeline.set(this.getEntryKey(id), JSON.stringify(entry));
+      pipeline.zadd(this.getIndexKey(), entry.firstFailedAt, id);
+      for (const status of Object.values(DeadLetterStatus)) {
+        pipeline.zrem(this.getIndexKey(status), id);
+      }
+      pipeline.zadd(this.getIndexKey(entry.status), entry.firstFailedAt, id);
+      if (entry.nextRetryAt) {
+        pipeline.zadd(this.getRetryKey(), entry.nextRetryAt, id);
+      } else {
+        pipeline.zrem(this.getRetryKey(), id);
+      }
+      await pipeline.exec();
+
+      logger.warn(`Event moved to dead-letter queue (attempt ${attempts}/${config.deadLetter.maxAttempts})`, {
+        id,
+        eventName: entry.eventName,
+        status: entry.status,
+        error: entry.error
+      });
+
+      return entry;
+    } catch (storeError) {
+      logger.error('Error storing dead-letter entry:', storeError, { log });
+      throw storeError;
+    }
+  }
+
+  // Stop retrying an entry that must not be applied; it stays listed until discarded
+  async reject(id: string, reason: string): Promise<DeadLetterEntry | null> {
+    const existing = await this.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const entry: DeadLetterEntry = {
+      ...existing,
+      error: reason,
+      status: DeadLetterStatus.EXHAUSTED,
+      nextRetryAt: undefined
+    };
+
+    const pipeline = this.redis.pipeline();
+    pipeline.set(this.getEntryKey(id), JSON.stringify(entry));
+    pipeline.zrem(this.getIndexKey(DeadLetterStatus.RETRYING), id);
+    pipeline.zadd(this.getIndexKey(DeadLetterStatus.EXHAUSTED), entry.firstFailedAt, id);
+    pipeline.zrem(this.getRetryKey(), id);
+    await pipeline.exec();
+
+    logger.warn('Dead-letter entry rejected', { id, eventName: entry.eventName, reason });
+    return entry;
+  }
+
+  // Drop entries from blocks above `blockNumber`, after a reorg orphaned them
+  async removeAfterBlock(blockNumber: number): Promise<number> {
+    try {
+      const ids = await this.redis.zrange(this.getIndexKey(), 0, -1);
+      let removed = 0;
+
+      for (const id of ids) {
+        const entry = await this.get(id);
+        if (entry && entry.log.blockNumber > blockNumber && await this.remove(id)) {
+          removed++;
+        }
+      }
+
+      return removed;
+    } catch (error) {
+      logger.error('Error removing orphaned dead-letter entries:', error);
+      throw error;
+    }
+  }
+
+  // Get a dead-letter entry by id
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    const data = await this.redis.get(this.getEntryKey(id));
+    return data ? JSON.parse(data) as DeadLetterEntry : null;
+  }
+
+  // List dead-letter entries, oldest failure first
+  async list(params: DeadLetterQueryParams = {}): Promise<DeadLetterListResponse> {
+    try {
+      const { status, limit = 50, offset = 0 } = params;
+      const indexKey = this.getIndexKey(status);
+
+      const [total, ids] = await Promise.all([
+        this.redis.zcard(indexKey),
+        this.redis.zrange(indexKey, offset, offset + limit - 1)
+      ]);
+
+      const entries: DeadLetterEntry[] = [];
+      for (const id of ids) {
+        const entry = await this.get(id);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+
+      return {
+        entries,
+        total,
+        limit,
+        offset
+      };
+    } catch (error) {
+      logger.error('Error listing dead-letter entries:', error);
+      throw error;
+    }
+  }
+
+  // Ids of entries whose backoff has elapsed
+  async getDueIds(now: number = Date.now()): Promise<string[]> {
+    return await this.redis.zrangebyscore(this.getRetryKey(), '-inf', now);
+  }
+
+  // Remove an entry (after a successful replay or an explicit discard)
+  async remove(id: string): Promise<boolean> {
+    try {
+      const pipeline = this.redis.pipeline();
+      pipeline.del(this.getEntryKey(id));
+      pipeline.zrem(this.getIndexKey(), id);
+      for (const status of Object.values(DeadLetterStatus)) {
+        pipeline.zrem(this.getIndexKey(status), id);
+      }
+      pipeline.zrem(this.getRetryKey(), id);
+
+      const results = await pipeline.exec();
+      return !!results && results[0][1] === 1;
+    } catch (error) {
+      logger.error('Error removing dead-letter entry:', error);
+      throw error;
+    }
+  }
+
+  async count(status?: DeadLetterStatus): Promise<number> {
+    return await this.redis.zcard(this.getIndexKey(status));
+  }
+}
+
+export default new DeadLetterService();
@@ -0,0 +1,47 @@
+import { Contract, Result } from 'ethers';
+import logger from '../utils/logger';
+import { EventMetadata } from '../types/issuer';
+
+export interface EventDecodeContext {
+  // Read contract state with RPC failover
+  readContract<T>(call: (contract: Contract) => Promise<T>): Promise<T>;
+}
+
+export interface ContractEventHandler<T extends { issuer: string } = { issuer: string }> {
+  // ABI event name, e.g. 'IssuerApproved'
+  eventName: string;
+  // Convert decoded ABI arguments into the typed event payload
+  decode(args: Result, context: EventDecodeContext): Promise<T>;
+  // Apply the typed event to storage
+  handle(event: T, metadata: EventMetadata): Promise<void>;
+}
+
+/**
+ * Maps ABI event names to a typed decoder and handler. Live listeners,
+ * polling and backfill all dispatch through this registry.
+ */
+export class EventRegistry {
+  private handlers: Map<string, ContractEventHandler<any>> = new Map();
+
+  register<T extends { issuer: string }>(handler: ContractEventHandler<T>): void {
+    if (this.handlers.has(handler.eventName)) {
+      logger.warn(`Replacing registered handler for ${handler.eventName}`);
+    }
+
+    this.handlers.set(handler.eventName, handler);
+  }
+
+  get(eventName: string): ContractEventHandler<any> | undefined {
+    return this.handlers.get(eventName);
+  }
+
+  has(eventName: string): boolean {
+    return this.handlers.has(eventName);
+  }
+
+  getEventNames(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+}
+
+export default new EventRegistry();
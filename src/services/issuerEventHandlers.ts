@@ -0,0 +1,78 @@
+import issuerService from './issuerService';
+import eventRegistry, { EventRegistry, ContractEventHandler } from './eventRegistry';
+import {
+  IssuerApplicationSubmittedEvent,
+  IssuerApprovedEvent,
+  IssuerRejectedEvent,
+  IssuerRevokedEvent,
+  IssuerEventType
+} from '../types/issuer';
+import { normalizeKeyHistory } from '../utils/issuerInfo';
+
+const applicationSubmittedHandler: ContractEventHandler<IssuerApplicationSubmittedEvent> = {
+  eventName: IssuerEventType.APPLICATION_SUBMITTED,
+  decode: async (args) => ({
+    issuer: args.issuer,
+    name: args.name,
+    requestedCategories: [...args.requestedCategories],
+    proposedFixedFee: args.proposedFixedFee.toString(),
+    publicKey: args.publicKey,
+    stakeAmount: args.stakeAmount.toString()
+  }),
+  handle: (event, metadata) => issuerService.handleApplicationSubmitted(event, metadata)
+};
+
+const approvedHandler: ContractEventHandler<IssuerApprovedEvent> = {
+  eventName: IssuerEventType.APPROVED,
+  decode: async (args, { readContract }) => {
+    // Fee, registration time and signing keys are only available from contract state
+    const issuerInfo = await readContract(contract => contract.getIssuerInfo(args.issuer));
+
+    return {
+      caller: args.caller,
+      issuer: args.issuer,
+      attestationUID: args.attestationUID,
+      approveFixedFee: args.approveFixedFee,
+      feePerCategory: issuerInfo.feePerCategory.toString(),
+      registrationTime: Number(issuerInfo.registrationTime),
+      activeKeyIndex: Number(issuerInfo.activeKeyIndex),
+      keyHistory: normalizeKeyHistory(issuerInfo.keyHistory)
+    };
+  },
+  handle: (event, metadata) => issuerService.handleIssuerApproved(event, metadata)
+};
+
+const rejectedHandler: ContractEventHandler<IssuerRejectedEvent> = {
+  eventName: IssuerEventType.REJECTED,
+  decode: async (args) => ({
+    caller: args.caller,
+    issuer: args.issuer
+  }),
+  handle: (event, metadata) => issuerService.handleIssuerRejected(event, metadata)
+};
+
+const revokedHandler: ContractEventHandler<IssuerRevokedEvent> = {
+  eventName: IssuerEventType.REVOKED,
+  decode: async (args) => ({
+    caller: args.caller,
+    issuer: args.issuer,
+    attestationUID: args.attestationUID
+  }),
+  handle: (event, metadata) => issuerService.handleIssuerRevoked(event, metadata)
+};
+
+// Register the issuer registry events; safe to call more than once
+export function registerIssuerEventHandlers(registry: EventRegistry = eventRegistry): void {
+  const handlers: ContractEventHandler<any>[] = [
+    applicationSubmittedHandler,
+    approvedHandler,
+    rejectedHandler,
+    revokedHandler
+  ];
+
+  for (const handler of handlers) {
+    if (!registry.has(handler.eventName)) {
+      registry.register(handler);
+    }
+  }
+}
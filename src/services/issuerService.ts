@@ -1,6 +1,13 @@
-import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import Redis, { ChainableCommander } from 'ioredis';
 import redisClient from '../database/redis';
 import logger from '../utils/logger';
+import { PageCursor, encodeCursor, decodeCursor } from '../utils/cursor';
+import { acquireLock, renewLock, releaseLock } from '../utils/redisLock';
+import categoryService from './categoryService';
+import statsService from './statsService';
+import { CategoryStatusCounts } from '../types/category';
+import { OnchainKeyInfo, StoredKeyHistory } from '../types/onchain';
 import {
   IssuerData,
   IssuerStatus,
@@ -10,9 +17,88 @@ import {
   EventMetadata,
   IssuerQueryParams,
   IssuerListResponse,
-  IssuerRevokedEvent
+  IssuerFilters,
+  IssuerSearchParams,
+  IssuerSearchResult,
+  IssuerExportParams,
+  IssuerExportRow,
+  IssuerStatusSummary,
+  IssuerSortField,
+  SortOrder,
+  IssuerRevokedEvent,
+  IssuerEventType,
+  IssuerHistoryEntry,
+  IssuerJournalEntry,
+  UnconfirmedIssuerChange
 } from '../types/issuer';
 
+interface ScoredMember {
+  member: string;
+  score: number;
+}
+
+// An issuer on a listing page with the sort value its cursor is issued for
+interface PageEntry {
+  member: string;
+  score: number | string | null;
+}
+
+// Bump when an index is added or changes shape; startup rebuilds indexes below this version
+const INDEX_VERSION = 9;
+
+// Longest indexed name suffix; longer queries are matched on this prefix and then verified
+const SEARCH_SUFFIX_LENGTH = 32;
+
+// Index hits read per round trip while searching
+const SEARCH_PAGE_SIZE = 500;
+
+// Most index hits read from one band; past this, ties within a rank are among the first hits in lex order
+const SEARCH_BAND_LIMIT = 10000;
+
+// Search index bands, best matches first: where in the text the matching suffix starts
+enum SearchBand {
+  START = '0',
+  WORD = '1',
+  INNER = '2'
+}
+
+// Lifetime of an event claim; a crashed writer's claim expires so the event can be retried
+const EVENT_CLAIM_TTL = 60 * 1000;
+
+// Issuers read per round trip while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+// Lifetime of an export snapshot, renewed with every batch; covers exports whose client went away
+const EXPORT_SNAPSHOT_TTL = 10 * 60;
+
+// Lifetime of the set a filtered listing is narrowed into; deleted as soon as the page is read
+const QUERY_TTL = 60;
+
+// Hash fields kept in sorted sets of their own, scored by value, for range filters and sorting
+const SCORED_FIELDS = ['submittedAt', 'blockNumber', 'stakeAmount', 'proposedFixedFee', 'feePerCategory', 'approveFixedFee'];
+
+// Name index entries read per round trip while listing by name
+const NAME_PAGE_SIZE = 500;
+
+// Lifetime of the index migration lock, renewed with every batch
+const MIGRATION_LOCK_TTL = 60 * 1000;
+
+// How often a replica waiting for another one's migration checks whether it finished
+const MIGRATION_POLL_INTERVAL = 1000;
+
+// Prefix of the index and counter copies a rebuild writes before swapping them in
+const REBUILD_PREFIX = 'rebuild:';
+
+// Hash fields written by a decision; a resubmitted application starts without them
+const DECISION_FIELDS = ['decidedBy', 'attestationUID', 'approveFixedFee', 'feePerCategory', 'registrationTime'];
+
+const EVENT_STATUS: Record<IssuerEventType, IssuerStatus> = {
+  [IssuerEventType.APPLICATION_SUBMITTED]: IssuerStatus.PENDING,
+  [IssuerEventType.APPROVED]: IssuerStatus.APPROVED,
+  [IssuerEventType.REJECTED]: IssuerStatus.REJECTED,
+  [IssuerEventType.REVOKED]: IssuerStatus.REVOKED
+};
+
 export class IssuerService {
   private redis: Redis;
 
@@ -25,8 +111,377 @@ export class IssuerService {
     return `issuer:${address.toLowerCase()}`;
   }
 
-  private getStatusListKey(status: IssuerStatus): string {
-    return `issuers:${status}`;
+  // Sorted sets of issuer addresses scored by updatedAt. Index keys take a prefix that
+  // selects the copy a rebuild writes (REBUILD_PREFIX) instead of the live one
+  private getStatusIndexKey(status: IssuerStatus, prefix: string = ''): string {
+    return `${prefix}issuers:${status}`;
+  }
+
+  private getAllIndexKey(prefix: string = ''): string {
+    return `${prefix}issuers:all`;
+  }
+
+  // Sets of issuer addresses per requested category
+  private getCategoryIndexKey(category: string, prefix: string = ''): string {
+    return `${prefix}issuers:category:${category.toLowerCase()}`;
+  }
+
+  // Sorted sets of issuer addresses scored by the value of one hash field
+  private getFieldIndexKey(field: string, prefix: string = ''): string {
+    return `${prefix}issuers:by:${field}`;
+  }
+
+  // Lexicographic sorted set of "<name>\0<address>" members for listing by name
+  private getNameSortKey(prefix: string = ''): string {
+    return `${prefix}issuers:sort:name`;
+  }
+
+  private getNameSortMember(name: string, address: string): string {
+    return `${this.normalizeSearchText(name)}\u0000${address.toLowerCase()}`;
+  }
+
+  // Sets of issuer addresses per deciding admin
+  private getCallerIndexKey(caller: string, prefix: string = ''): string {
+    return `${prefix}issuers:decided_by:${caller.toLowerCase()}`;
+  }
+
+  // Issuers per category and status, as "<category>:<status>" fields
+  private getCategoryCountsKey(prefix: string = ''): string {
+    return `${prefix}issuers:category_counts`;
+  }
+
+  // Lexicographic sorted sets of "<suffix>\0<address>" members for substring search
+  private getNameSearchKey(prefix: string = ''): string {
+    return `${prefix}issuers:search:names`;
+  }
+
+  private getAddressSearchKey(prefix: string = ''): string {
+    return `${prefix}issuers:search:addresses`;
+  }
+
+  // Copy of an index taken at the start of an export
+  private getExportSnapshotKey(id: string): string {
+    return `issuers:export:${id}`;
+  }
+
+  // Issuers of an index that match the filters of one listing request
+  private getQueryKey(id: string): string {
+    return `issuers:query:${id}`;
+  }
+
+  private normalizeSearchText(text: string): string {
+    return text.toLowerCase().replace(/[\u0000-\u001f]/g, '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Every suffix of the text (capped in length) so a prefix lookup finds any substring.
+   * Each is tagged with its band, so exact and prefix matches are read before the rest.
+   */
+  private getSearchMembers(text: string, address: string): string[] {
+    const members = new Set<string>();
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] !== ' ') {
+        const band = i === 0 ? SearchBand.START : text[i - 1] === ' ' ? SearchBand.WORD : SearchBand.INNER;
+        members.add(`${band}${text.slice(i, i + SEARCH_SUFFIX_LENGTH)}\u0000${address.toLowerCase()}`);
+      }
+    }
+    return [...members];
+  }
+
+  // Replace an issuer's name and address entries in the search index
+  private reindexSearch(
+    pipeline: ChainableCommander,
+    address: string,
+    previousName: string | undefined,
+    currentName: string | undefined,
+    prefix: string = ''
+  ): void {
+    const hex = address.toLowerCase().replace(/^0x/, '');
+
+    if (previousName !== undefined) {
+      const members = this.getSearchMembers(this.normalizeSearchText(previousName), address);
+      if (members.length > 0) {
+        pipeline.zrem(this.getNameSearchKey(prefix), ...members);
+      }
+    }
+
+    if (currentName !== undefined) {
+      const members = this.getSearchMembers(this.normalizeSearchText(currentName), address);
+      if (members.length > 0) {
+        pipeline.zadd(this.getNameSearchKey(prefix), ...members.flatMap(member => [0, member]));
+      }
+      pipeline.zadd(
+        this.getAddressSearchKey(prefix),
+        ...this.getSearchMembers(hex, address).flatMap(member => [0, member])
+      );
+    } else {
+      pipeline.zrem(this.getAddressSearchKey(prefix), ...this.getSearchMembers(hex, address));
+    }
+  }
+
+  private getIndexVersionKey(): string {
+    return 'issuers:index_version';
+  }
+
+  private getMigrationLockKey(): string {
+    return 'issuers:migration_lock';
+  }
+
+  // Keep category set membership in line with a change of requested categories
+  private reindexCategories(
+    pipeline: ChainableCommander,
+    address: string,
+    previous: string[],
+    current: string[],
+    prefix: string = ''
+  ): void {
+    const member = address.toLowerCase();
+    const currentKeys = new Set(current.map(category => this.getCategoryIndexKey(category, prefix)));
+    for (const category of previous) {
+      const key = this.getCategoryIndexKey(category, prefix);
+      if (!currentKeys.has(key)) {
+        pipeline.srem(key, member);
+      }
+    }
+    for (const key of currentKeys) {
+      pipeline.sadd(key, member);
+    }
+  }
+
+  // Keep the per-field, name and deciding admin indexes in line with a change of the issuer hash
+  private reindexFields(
+    pipeline: ChainableCommander,
+    address: string,
+    previous: Record<string, string> | null,
+    current: Record<string, string> | null,
+    prefix: string = ''
+  ): void {
+    const member = address.toLowerCase();
+    for (const field of SCORED_FIELDS) {
+      const score = this.toFieldScore(field, current?.[field]);
+      if (score !== null) {
+        pipeline.zadd(this.getFieldIndexKey(field, prefix), score, member);
+      } else if (previous?.[field] !== undefined) {
+        pipeline.zrem(this.getFieldIndexKey(field, prefix), member);
+      }
+    }
+
+    if (previous?.name !== undefined && previous.name !== current?.name) {
+      pipeline.zrem(this.getNameSortKey(prefix), this.getNameSortMember(previous.name, address));
+    }
+    if (current?.name !== undefined) {
+      pipeline.zadd(this.getNameSortKey(prefix), 0, this.getNameSortMember(current.name, address));
+    }
+
+    if (previous?.decidedBy && previous.decidedBy !== current?.decidedBy) {
+      pipeline.srem(this.getCallerIndexKey(previous.decidedBy, prefix), member);
+    }
+    if (current?.decidedBy) {
+      pipeline.sadd(this.getCallerIndexKey(current.decidedBy, prefix), member);
+    }
+  }
+
+  // Score of a stored field value; uint256 amounts past 2^53 are rounded to the nearest double
+  private toFieldScore(field: string, raw: string | undefined): number | null {
+    if (raw === undefined || raw === '') {
+      return null;
+    }
+    if (field === 'approveFixedFee') {
+      return raw === 'true' ? 1 : 0;
+    }
+
+    try {
+      return Number(BigInt(raw));
+    } catch {
+      return null;
+    }
+  }
+
+  // Move an issuer's contribution to the category counters from its previous state to its current one
+  private recountCategories(
+    pipeline: ChainableCommander,
+    previous: { status?: string; categories: string[] },
+    current: { status?: string; categories: string[] },
+    prefix: string = ''
+  ): void {
+    const fields = (state: { status?: string; categories: string[] }) => new Set(state.status
+      ? state.categories.map(category => `${category.toLowerCase()}:${state.status}`)
+      : []);
+    const previousFields = fields(previous);
+    const currentFields = fields(current);
+
+    for (const field of previousFields) {
+      if (!currentFields.has(field)) {
+        pipeline.hincrby(this.getCategoryCountsKey(prefix), field, -1);
+      }
+    }
+    for (const field of currentFields) {
+      if (!previousFields.has(field)) {
+        pipeline.hincrby(this.getCategoryCountsKey(prefix), field, 1);
+      }
+    }
+  }
+
+  // Category counters for a status change that leaves the requested categories as they were
+  private recountStatus(pipeline: ChainableCommander, previous: Record<string, string> | null, status: IssuerStatus): void {
+    const categories = this.parseCategories(previous?.requestedCategories);
+    this.recountCategories(pipeline, { status: previous?.status, categories }, { status, categories });
+  }
+
+  private parseCategories(raw: string | undefined): string[] {
+    try {
+      const categories = JSON.parse(raw || '[]');
+      return Array.isArray(categories) ? categories.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Move an issuer into the index for its current status
+  private indexIssuer(
+    pipeline: ChainableCommander,
+    address: string,
+    status: IssuerStatus,
+    updatedAt: number,
+    prefix: string = ''
+  ): void {
+    const member = address.toLowerCase();
+    for (const indexStatus of Object.values(IssuerStatus)) {
+      if (indexStatus !== status) {
+        pipeline.zrem(this.getStatusIndexKey(indexStatus, prefix), member);
+      }
+    }
+    pipeline.zadd(this.getStatusIndexKey(status, prefix), updatedAt, member);
+    pipeline.zadd(this.getAllIndexKey(prefix), updatedAt, member);
+  }
+
+  private unindexIssuer(pipeline: ChainableCommander, address: string): void {
+    const member = address.toLowerCase();
+    for (const status of Object.values(IssuerStatus)) {
+      pipeline.zrem(this.getStatusIndexKey(status), member);
+    }
+    pipeline.zrem(this.getAllIndexKey(), member);
+  }
+
+  private getHistoryKey(address: string): string {
+    return `issuer:${address.toLowerCase()}:history`;
+  }
+
+  private buildHistoryEntry(
+    eventType: IssuerEventType,
+    status: IssuerStatus,
+    metadata: EventMetadata,
+    details: { caller?: string; attestationUID?: string } = {}
+  ): string {
+    const entry: IssuerHistoryEntry = {
+      event: eventType,
+      status,
+      caller: details.caller ? details.caller.toLowerCase() : undefined,
+      attestationUID: details.attestationUID,
+      blockNumber: metadata.blockNumber,
+      txHash: metadata.txHash,
+      logIndex: metadata.logIndex,
+      timestamp: metadata.timestamp
+    };
+
+    return JSON.stringify(entry);
+  }
+
+  private getKeyHistoryKey(address: string): string {
+    return `issuer:${address.toLowerCase()}:keys`;
+  }
+
+  private getProcessedEventsKey(): string {
+    return 'events:processed';
+  }
+
+  private getEventId(metadata: { txHash: string; logIndex: number }): string {
+    return `${metadata.txHash.toLowerCase()}:${metadata.logIndex}`;
+  }
+
+  // Short-lived lock held while one ingestion path applies an event
+  private getEventClaimKey(metadata: { txHash: string; logIndex: number }): string {
+    return `events:claim:${this.getEventId(metadata)}`;
+  }
+
+  // Claim an event for this process; false when it was already applied or is being applied elsewhere
+  private async claimEvent(metadata: EventMetadata): Promise<boolean> {
+    const claimKey = this.getEventClaimKey(metadata);
+    const claimed = await this.redis.set(claimKey, '1', 'PX', EVENT_CLAIM_TTL, 'NX');
+    if (claimed !== 'OK') {
+      return false;
+    }
+
+    // Checked under the claim: the marker and the claim release commit together
+    if (await this.isEventProcessed(metadata)) {
+      await this.redis.del(claimKey);
+      return false;
+    }
+    return true;
+  }
+
+  // Transaction for a claimed event's writes; the processed marker commits with them or not at all
+  private beginEventWrites(metadata: EventMetadata): ChainableCommander {
+    const transaction = this.redis.multi();
+    transaction.sadd(this.getProcessedEventsKey(), this.getEventId(metadata));
+    transaction.del(this.getEventClaimKey(metadata));
+    return transaction;
+  }
+
+  // Release the claim so a failed event can be processed again
+  private async releaseEvent(metadata: { txHash: string; logIndex: number }): Promise<void> {
+    try {
+      await this.redis.del(this.getEventClaimKey(metadata));
+    } catch (error) {
+      logger.error('Error releasing event claim:', error);
+    }
+  }
+
+  async isEventProcessed(metadata: { txHash: string; logIndex: number }): Promise<boolean> {
+    const processed = await this.redis.sismember(this.getProcessedEventsKey(), this.getEventId(metadata));
+    return processed === 1;
+  }
+
+  private getUnconfirmedKey(address: string): string {
+    return `issuer:${address.toLowerCase()}:unconfirmed`;
+  }
+
+  private getJournalKey(blockNumber: number): string {
+    return `journal:block:${blockNumber}`;
+  }
+
+  private getJournalIndexKey(): string {
+    return 'journal:blocks';
+  }
+
+  // Record the issuer state prior to applying an event so it can be undone on reorg
+  // Returns the snapshot so handlers can diff against it
+  private async journalChange(
+    pipeline: ChainableCommander,
+    address: string,
+    metadata: EventMetadata
+  ): Promise<Record<string, string> | null> {
+    const previous = await this.redis.hgetall(this.getIssuerKey(address));
+
+    const entry: IssuerJournalEntry = {
+      issuer: address.toLowerCase(),
+      txHash: metadata.txHash,
+      logIndex: metadata.logIndex,
+      previous: previous && Object.keys(previous).length > 0 ? previous : null
+    };
+
+    pipeline.rpush(this.getJournalKey(metadata.blockNumber), JSON.stringify(entry));
+    pipeline.zadd(this.getJournalIndexKey(), metadata.blockNumber, metadata.blockNumber.toString());
+
+    return entry.previous;
+  }
+
+  // Submission time of an issuer that was pending before the event, for time-to-decision stats
+  private getPendingSince(previous: Record<string, string> | null): number | undefined {
+    if (previous?.status !== IssuerStatus.PENDING || !previous.submittedAt) {
+      return undefined;
+    }
+    return parseInt(previous.submittedAt, 10);
   }
 
   // Handle IssuerApplicationSubmitted event
@@ -34,9 +489,17 @@ export class IssuerService {
     event: IssuerApplicationSubmittedEvent,
     metadata: EventMetadata
   ): Promise<void> {
+    if (!(await this.claimEvent(metadata))) {
+      logger.debug('Skipping already processed event', {
+        issuer: event.issuer,
+        txHash: metadata.txHash,
+        logIndex: metadata.logIndex
+      });
+      return;
+    }
+
     try {
       const issuerKey = this.getIssuerKey(event.issuer);
-      const pendingListKey = this.getStatusListKey(IssuerStatus.PENDING);
 
       const issuerData: IssuerData = {
         address: event.issuer.toLowerCase(),
@@ -52,11 +515,18 @@ export class IssuerService {
         blockNumber: metadata.blockNumber
       };
 
-      // Use pipeline for atomic operations
-      const pipeline = this.redis.pipeline();
+      const historyEntry = this.buildHistoryEntry(
+        IssuerEventType.APPLICATION_SUBMITTED,
+        IssuerStatus.PENDING,
+        metadata
+      );
+
+      // One transaction with the processed marker, so a crash cannot leave it marked but unapplied
+      const pipeline = this.beginEventWrites(metadata);
+      const previous = await this.journalChange(pipeline, event.issuer, metadata);
 
-      // Store issuer data as hash
-      pipeline.hset(issuerKey, {
+      // Store issuer data as hash, dropping the decision on an earlier application
+      const fields: Record<string, string> = {
         address: issuerData.address,
         name: issuerData.name,
         requestedCategories: JSON.stringify(issuerData.requestedCategories),
@@ -68,10 +538,29 @@ export class IssuerService {
         updatedAt: issuerData.updatedAt.toString(),
         txHash: issuerData.txHash,
         blockNumber: issuerData.blockNumber.toString()
-      });
+      };
+      pipeline.hdel(issuerKey, ...DECISION_FIELDS);
+      pipeline.hset(issuerKey, fields);
 
-      // Add to pending list
-      pipeline.lpush(pendingListKey, event.issuer.toLowerCase());
+      // Add to pending index, dropping any earlier status entry (e.g. a resubmission after rejection)
+      this.indexIssuer(pipeline, event.issuer, IssuerStatus.PENDING, metadata.timestamp);
+      this.reindexCategories(
+        pipeline,
+        event.issuer,
+        this.parseCategories(previous?.requestedCategories),
+        issuerData.requestedCategories
+      );
+      this.recountCategories(
+        pipeline,
+        { status: previous?.status, categories: this.parseCategories(previous?.requestedCategories) },
+        { status: IssuerStatus.PENDING, categories: issuerData.requestedCategories }
+      );
+      this.reindexFields(pipeline, event.issuer, previous, fields);
+      this.reindexSearch(pipeline, event.issuer, previous?.name, issuerData.name);
+      statsService.recordEvent(pipeline, IssuerEventType.APPLICATION_SUBMITTED, metadata);
+
+      // Append to event history
+      pipeline.rpush(this.getHistoryKey(event.issuer), historyEntry);
 
       await pipeline.exec();
 
@@ -82,6 +571,7 @@ export class IssuerService {
         blockNumber: metadata.blockNumber
       });
     } catch (error) {
+      await this.releaseEvent(metadata);
       logger.error('Error handling application submitted event:', error);
       throw error;
     }
@@ -92,26 +582,50 @@ export class IssuerService {
     event: IssuerApprovedEvent,
     metadata: EventMetadata
   ): Promise<void> {
+    if (!(await this.claimEvent(metadata))) {
+      logger.debug('Skipping already processed event', {
+        issuer: event.issuer,
+        txHash: metadata.txHash,
+        logIndex: metadata.logIndex
+      });
+      return;
+    }
+
     try {
       const issuerKey = this.getIssuerKey(event.issuer);
-      const pendingListKey = this.getStatusListKey(IssuerStatus.PENDING);
-      const approvedListKey = this.getStatusListKey(IssuerStatus.APPROVED);
 
-      const pipeline = this.redis.pipeline();
+      const historyEntry = this.buildHistoryEntry(IssuerEventType.APPROVED, IssuerStatus.APPROVED, metadata, {
+        caller: event.caller,
+        attestationUID: event.attestationUID
+      });
+
+      const pipeline = this.beginEventWrites(metadata);
+      const previous = await this.journalChange(pipeline, event.issuer, metadata);
 
       // Update issuer status and add approval data
-      pipeline.hset(issuerKey, {
+      const fields = {
         status: IssuerStatus.APPROVED,
         attestationUID: event.attestationUID,
         approveFixedFee: event.approveFixedFee.toString(),
         updatedAt: metadata.timestamp.toString(),
-        feePerCategory: event.feePerCategory.toString(),
-        registrationTime: event.registrationTime.toString()
-      });
+        feePerCategory: event.feePerCategory,
+        registrationTime: event.registrationTime.toString(),
+        decidedBy: event.caller.toLowerCase()
+      };
+      pipeline.hset(issuerKey, fields);
 
-      // Move from pending to approved list
-      pipeline.lrem(pendingListKey, 0, event.issuer.toLowerCase());
-      pipeline.lpush(approvedListKey, event.issuer.toLowerCase());
+      // Move from pending to approved index
+      this.indexIssuer(pipeline, event.issuer, IssuerStatus.APPROVED, metadata.timestamp);
+      this.recountStatus(pipeline, previous, IssuerStatus.APPROVED);
+      this.reindexFields(pipeline, event.issuer, previous, { ...previous, ...fields });
+
+      if (event.keyHistory) {
+        this.writeKeyHistory(pipeline, event.issuer, event.activeKeyIndex ?? 0, event.keyHistory, null);
+      }
+      statsService.recordEvent(pipeline, IssuerEventType.APPROVED, metadata, this.getPendingSince(previous));
+
+      // Append to event history
+      pipeline.rpush(this.getHistoryKey(event.issuer), historyEntry);
 
       await pipeline.exec();
 
@@ -123,6 +637,7 @@ export class IssuerService {
         blockNumber: metadata.blockNumber
       });
     } catch (error) {
+      await this.releaseEvent(metadata);
       logger.error('Error handling issuer approved event:', error);
       throw error;
     }
@@ -133,22 +648,41 @@ export class IssuerService {
     event: IssuerRejectedEvent,
     metadata: EventMetadata
   ): Promise<void> {
+    if (!(await this.claimEvent(metadata))) {
+      logger.debug('Skipping already processed event', {
+        issuer: event.issuer,
+        txHash: metadata.txHash,
+        logIndex: metadata.logIndex
+      });
+      return;
+    }
+
     try {
       const issuerKey = this.getIssuerKey(event.issuer);
-      const pendingListKey = this.getStatusListKey(IssuerStatus.PENDING);
-      const rejectedListKey = this.getStatusListKey(IssuerStatus.REJECTED);
 
-      const pipeline = this.redis.pipeline();
+      const historyEntry = this.buildHistoryEntry(IssuerEventType.REJECTED, IssuerStatus.REJECTED, metadata, {
+        caller: event.caller
+      });
+
+      const pipeline = this.beginEventWrites(metadata);
+      const previous = await this.journalChange(pipeline, event.issuer, metadata);
 
       // Update issuer status
-      pipeline.hset(issuerKey, {
+      const fields = {
         status: IssuerStatus.REJECTED,
-        updatedAt: metadata.timestamp.toString()
-      });
+        updatedAt: metadata.timestamp.toString(),
+        decidedBy: event.caller.toLowerCase()
+      };
+      pipeline.hset(issuerKey, fields);
 
-      // Move from pending to rejected list
-      pipeline.lrem(pendingListKey, 0, event.issuer.toLowerCase());
-      pipeline.lpush(rejectedListKey, event.issuer.toLowerCase());
+      // Move from pending to rejected index
+      this.indexIssuer(pipeline, event.issuer, IssuerStatus.REJECTED, metadata.timestamp);
+      this.recountStatus(pipeline, previous, IssuerStatus.REJECTED);
+      this.reindexFields(pipeline, event.issuer, previous, { ...previous, ...fields });
+      statsService.recordEvent(pipeline, IssuerEventType.REJECTED, metadata, this.getPendingSince(previous));
+
+      // Append to event history
+      pipeline.rpush(this.getHistoryKey(event.issuer), historyEntry);
 
       await pipeline.exec();
 
@@ -159,6 +693,7 @@ export class IssuerService {
         blockNumber: metadata.blockNumber
       });
     } catch (error) {
+      await this.releaseEvent(metadata);
       logger.error('Error handling issuer rejected event:', error);
       throw error;
     }
@@ -169,22 +704,42 @@ export class IssuerService {
     event: IssuerRevokedEvent,
     metadata: EventMetadata
   ): Promise<void> {
+    if (!(await this.claimEvent(metadata))) {
+      logger.debug('Skipping already processed event', {
+        issuer: event.issuer,
+        txHash: metadata.txHash,
+        logIndex: metadata.logIndex
+      });
+      return;
+    }
+
     try {
       const issuerKey = this.getIssuerKey(event.issuer);
-      const approvedListKey = this.getStatusListKey(IssuerStatus.APPROVED);
-      const revokedListKey = this.getStatusListKey(IssuerStatus.REVOKED);
 
-      const pipeline = this.redis.pipeline();
+      const historyEntry = this.buildHistoryEntry(IssuerEventType.REVOKED, IssuerStatus.REVOKED, metadata, {
+        caller: event.caller,
+        attestationUID: event.attestationUID
+      });
+
+      const pipeline = this.beginEventWrites(metadata);
+      const previous = await this.journalChange(pipeline, event.issuer, metadata);
 
       // Update issuer status
-      pipeline.hset(issuerKey, {
+      const fields = {
         status: IssuerStatus.REVOKED,
-        updatedAt: metadata.timestamp.toString()
-      });
+        updatedAt: metadata.timestamp.toString(),
+        decidedBy: event.caller.toLowerCase()
+      };
+      pipeline.hset(issuerKey, fields);
+
+      // Move from approved to revoked index
+      this.indexIssuer(pipeline, event.issuer, IssuerStatus.REVOKED, metadata.timestamp);
+      this.recountStatus(pipeline, previous, IssuerStatus.REVOKED);
+      this.reindexFields(pipeline, event.issuer, previous, { ...previous, ...fields });
+      statsService.recordEvent(pipeline, IssuerEventType.REVOKED, metadata);
 
-      // Move from approved to revoked list
-      pipeline.lrem(approvedListKey, 0, event.issuer.toLowerCase());
-      pipeline.lpush(revokedListKey, event.issuer.toLowerCase());
+      // Append to event history
+      pipeline.rpush(this.getHistoryKey(event.issuer), historyEntry);
 
       await pipeline.exec();
 
@@ -195,107 +750,1473 @@ export class IssuerService {
         blockNumber: metadata.blockNumber
       });
     } catch (error) {
+      await this.releaseEvent(metadata);
       logger.error('Error handling issuer rejected event:', error);
       throw error;
     }
   }
 
-  // Get issuer by address
-  async getIssuer(address: string): Promise<IssuerData | null> {
+  // Undo every journaled change made by events in the given block (newest first)
+  async revertBlock(blockNumber: number): Promise<number> {
     try {
-      const issuerKey = this.getIssuerKey(address);
-      const data = await this.redis.hgetall(issuerKey);
+      const journalKey = this.getJournalKey(blockNumber);
+      const entries = (await this.redis.lrange(journalKey, 0, -1))
+        .map(entry => JSON.parse(entry) as IssuerJournalEntry)
+        .reverse();
 
-      if (!data || Object.keys(data).length === 0) {
-        return null;
-      }
-
-      return {
-        address: data.address,
-        name: data.name,
-        requestedCategories: JSON.parse(data.requestedCategories || '[]'),
-        proposedFixedFee: data.proposedFixedFee,
-        publicKey: data.publicKey,
-        stakeAmount: data.stakeAmount,
-        status: data.status as IssuerStatus,
-        attestationUID: data.attestationUID,
-        approveFixedFee: data.approveFixedFee ? data.approveFixedFee === 'true' : undefined,
-        submittedAt: parseInt(data.submittedAt),
-        updatedAt: parseInt(data.updatedAt),
-        txHash: data.txHash,
-        blockNumber: parseInt(data.blockNumber),
-        feePerCategory: data.feePerCategory ? parseInt(data.feePerCategory) : undefined,
-        registrationTime: data.registrationTime ? parseInt(data.registrationTime) : undefined
-      };
+      for (const entry of entries) {
+        const issuerKey = this.getIssuerKey(entry.issuer);
+        const current = await this.redis.hgetall(issuerKey);
+        const { requestedCategories: currentCategories, name: currentName, status: currentStatus } = current;
+        const pipeline = this.redis.pipeline();
+
+        // The hash still holds the state this event produced, so it identifies the event to uncount
+        const eventType = (Object.keys(EVENT_STATUS) as IssuerEventType[])
+          .find(type => EVENT_STATUS[type] === currentStatus);
+        if (eventType) {
+          statsService.revertEvent(pipeline, eventType, {
+            txHash: entry.txHash,
+            logIndex: entry.logIndex,
+            timestamp: parseInt(current.updatedAt || '0', 10)
+          });
+        }
+
+        // Restore issuer hash to its pre-event snapshot
+        pipeline.del(issuerKey);
+        if (entry.previous) {
+          pipeline.hset(issuerKey, entry.previous);
+        }
+
+        // Rebuild index membership from the restored status
+        if (entry.previous && entry.previous.status) {
+          this.indexIssuer(
+            pipeline,
+            entry.issuer,
+            entry.previous.status as IssuerStatus,
+            parseInt(entry.previous.updatedAt, 10) || 0
+          );
+        } else {
+          this.unindexIssuer(pipeline, entry.issuer);
+        }
+        this.reindexCategories(
+          pipeline,
+          entry.issuer,
+          this.parseCategories(currentCategories),
+          this.parseCategories(entry.previous?.requestedCategories)
+        );
+        this.recountCategories(
+          pipeline,
+          { status: currentStatus, categories: this.parseCategories(currentCategories) },
+          { status: entry.previous?.status, categories: this.parseCategories(entry.previous?.requestedCategories) }
+        );
+        this.reindexFields(pipeline, entry.issuer, current, entry.previous);
+        this.reindexSearch(pipeline, entry.issuer, currentName, entry.previous?.name);
+
+        // Drop the orphaned event from history (matched by txHash/logIndex in case it was rewritten)
+        const historyKey = this.getHistoryKey(entry.issuer);
+        const orphaned = (await this.redis.lrange(historyKey, 0, -1)).filter(raw => {
+          const historyEntry = JSON.parse(raw) as IssuerHistoryEntry;
+          return historyEntry.txHash === entry.txHash && historyEntry.logIndex === entry.logIndex;
+        });
+        for (const raw of orphaned) {
+          pipeline.lrem(historyKey, 1, raw);
+        }
+
+        // Allow the event to be re-ingested if it reappears on the canonical chain
+        pipeline.srem(this.getProcessedEventsKey(), this.getEventId(entry));
+
+        await pipeline.exec();
+      }
+
+      await this.redis.pipeline()
+        .del(journalKey)
+        .zrem(this.getJournalIndexKey(), blockNumber.toString())
+        .exec();
+
+      if (entries.length > 0) {
+        logger.warn('Reverted issuer changes from orphaned block', {
+          blockNumber,
+          events: entries.length
+        });
+      }
+
+      return entries.length;
     } catch (error) {
-      logger.error('Error getting issuer:', error);
+      logger.error('Error reverting block:', error);
       throw error;
     }
   }
 
-  // Get issuers by status with pagination
-  async getIssuersByStatus(params: IssuerQueryParams): Promise<IssuerListResponse> {
+  // Revert every journaled block above the given block number
+  async revertAfterBlock(blockNumber: number): Promise<number> {
+    const blocks = await this.redis.zrangebyscore(this.getJournalIndexKey(), `(${blockNumber}`, '+inf');
+    let reverted = 0;
+
+    for (const block of blocks.map(b => parseInt(b, 10)).sort((a, b) => b - a)) {
+      reverted += await this.revertBlock(block);
+    }
+
+    return reverted;
+  }
+
+  // Discard journals that are deeper than any reorg we are prepared to handle
+  async pruneJournal(belowBlock: number): Promise<void> {
     try {
-      const { status, limit = 50, offset = 0 } = params;
+      const blocks = await this.redis.zrangebyscore(this.getJournalIndexKey(), '-inf', `(${belowBlock}`);
+      if (blocks.length === 0) {
+        return;
+      }
 
-      if (!status) {
-        throw new Error('Status is required');
+      const pipeline = this.redis.pipeline();
+      for (const block of blocks) {
+        pipeline.del(this.getJournalKey(parseInt(block, 10)));
       }
+      pipeline.zremrangebyscore(this.getJournalIndexKey(), '-inf', `(${belowBlock}`);
+      await pipeline.exec();
+    } catch (error) {
+      logger.error('Error pruning reorg journal:', error);
+    }
+  }
+
+  // Record a tentative status change that has not yet reached the confirmation depth
+  async setUnconfirmedChange(
+    address: string,
+    eventType: IssuerEventType,
+    metadata: EventMetadata
+  ): Promise<void> {
+    const change: UnconfirmedIssuerChange = {
+      event: eventType,
+      status: EVENT_STATUS[eventType],
+      blockNumber: metadata.blockNumber,
+      txHash: metadata.txHash,
+      logIndex: metadata.logIndex,
+      timestamp: metadata.timestamp
+    };
+
+    await this.redis.set(this.getUnconfirmedKey(address), JSON.stringify(change));
+  }
+
+  // Clear the tentative change once its event is final (or orphaned)
+  async clearUnconfirmedChange(address: string, metadata: EventMetadata): Promise<void> {
+    const key = this.getUnconfirmedKey(address);
+    const raw = await this.redis.get(key);
+    if (!raw) {
+      return;
+    }
+
+    // A newer unconfirmed event may have replaced this one; leave it in place
+    const change = JSON.parse(raw) as UnconfirmedIssuerChange;
+    if (change.txHash === metadata.txHash && change.logIndex === metadata.logIndex) {
+      await this.redis.del(key);
+    }
+  }
 
-      const listKey = this.getStatusListKey(status);
-      const total = await Array.from(new Set(await this.redis.lrange(listKey, 0, -1))).length;
-      const issuerAddresses = await this.redis.lrange(listKey, offset, offset + limit - 1);
+  // List every stored issuer address by scanning issuer hashes
+  async listIssuerAddresses(): Promise<string[]> {
+    const addresses: string[] = [];
+    let cursor = '0';
 
-      const issuers: IssuerData[] = [];
+    do {
+      const [nextCursor, keys] = await this.redis.scan(cursor, 'MATCH', 'issuer:0x*', 'COUNT', 500);
+      cursor = nextCursor;
 
-      for (const address of Array.from(new Set(issuerAddresses))) {
-        const issuer = await this.getIssuer(address);
-        if (issuer) {
-          issuers.push(issuer);
+      for (const key of keys) {
+        const address = key.slice('issuer:'.length);
+        if (/^0x[a-f0-9]{40}$/.test(address)) {
+          addresses.push(address);
         }
       }
+    } while (cursor !== '0');
 
-      return {
-        issuers,
-        total,
-        limit,
-        offset
-      };
-    } catch (error) {
-      logger.error('Error getting issuers by status:', error);
-      throw error;
-    }
+    return addresses;
   }
 
-  // Get all issuers with pagination
-  async getAllIssuers(limit: number = 50, offset: number = 0): Promise<IssuerListResponse> {
+  // Recompute submittedAt/updatedAt and history timestamps from stored block numbers
+  async correctTimestamps(
+    address: string,
+    resolveTimestamp: (blockNumber: number) => Promise<number>,
+    dryRun: boolean = false
+  ): Promise<boolean> {
     try {
-      const statuses = [IssuerStatus.PENDING, IssuerStatus.APPROVED, IssuerStatus.REJECTED];
-      const allIssuers: IssuerData[] = [];
-      let totalCount = 0;
+      const issuerKey = this.getIssuerKey(address);
+      const data = await this.redis.hgetall(issuerKey);
+      if (!data || !data.blockNumber) {
+        return false;
+      }
 
-      for (const status of statuses) {
-        const result = await this.getIssuersByStatus({ status, limit: 1000 }); // Get all for each status
-        allIssuers.push(...result.issuers);
-        totalCount += result.total;
+      const history = await this.getIssuerHistory(address);
+      const correctedHistory: IssuerHistoryEntry[] = [];
+      for (const entry of history) {
+        correctedHistory.push({ ...entry, timestamp: await resolveTimestamp(entry.blockNumber) });
       }
 
-      // Sort by updatedAt descending
-      allIssuers.sort((a, b) => b.updatedAt - a.updatedAt);
+      const submittedAt = await resolveTimestamp(parseInt(data.blockNumber, 10));
+      const latest = correctedHistory[correctedHistory.length - 1];
+      // Without history only a pending issuer's last change is known to be its submission;
+      // decided issuers indexed before history was kept keep their stored decision time
+      let updatedAt = latest ? latest.timestamp : submittedAt;
+      if (!latest && data.status !== IssuerStatus.PENDING && data.updatedAt) {
+        updatedAt = parseInt(data.updatedAt, 10);
+      }
+
+      const changed = submittedAt.toString() !== data.submittedAt
+        || updatedAt.toString() !== data.updatedAt
+        || correctedHistory.some((entry, i) => entry.timestamp !== history[i].timestamp);
 
-      // Apply pagination
-      const paginatedIssuers = allIssuers.slice(offset, offset + limit);
+      if (!changed || dryRun) {
+        return changed;
+      }
 
-      return {
-        issuers: paginatedIssuers,
-        total: totalCount,
-        limit,
-        offset
+      const historyKey = this.getHistoryKey(address);
+      const pipeline = this.redis.pipeline();
+      const fields = {
+        submittedAt: submittedAt.toString(),
+        updatedAt: updatedAt.toString()
       };
-    } catch (error) {
-      logger.error('Error getting all issuers:', error);
-      throw error;
-    }
+      pipeline.hset(issuerKey, fields);
+      if (data.status) {
+        this.indexIssuer(pipeline, address, data.status as IssuerStatus, updatedAt);
+        this.reindexFields(pipeline, address, data, { ...data, ...fields });
+      }
+      if (correctedHistory.length > 0) {
+        pipeline.del(historyKey);
+        pipeline.rpush(historyKey, ...correctedHistory.map(entry => JSON.stringify(entry)));
+      }
+      await pipeline.exec();
+
+      return true;
+    } catch (error) {
+      logger.error('Error correcting issuer timestamps:', error);
+      throw error;
+    }
+  }
+
+  // Get issuer by address
+  async getIssuer(address: string): Promise<IssuerData | null> {
+    try {
+      const issuerKey = this.getIssuerKey(address);
+      const [data, unconfirmed] = await Promise.all([
+        this.redis.hgetall(issuerKey),
+        this.redis.get(this.getUnconfirmedKey(address))
+      ]);
+
+      const issuer = this.parseIssuer(data, unconfirmed);
+      if (issuer) {
+        await categoryService.attachCategories([issuer]);
+      }
+
+      return issuer;
+    } catch (error) {
+      logger.error('Error getting issuer:', error);
+      throw error;
+    }
+  }
+
+  // Get several issuers in one round trip, preserving the order of the addresses
+  async getIssuersBatch(addresses: string[]): Promise<IssuerData[]> {
+    try {
+      const issuers = (await this.readIssuers(addresses))
+        .filter((issuer): issuer is IssuerData => issuer !== null);
+
+      return categoryService.attachCategories(issuers);
+    } catch (error) {
+      logger.error('Error getting issuers batch:', error);
+      throw error;
+    }
+  }
+
+  // Look up many addresses in one pipelined read; unknown addresses map to null
+  async lookupIssuers(addresses: string[]): Promise<Record<string, IssuerData | null>> {
+    try {
+      const unique = [...new Set(addresses.map(address => address.toLowerCase()))];
+      const issuers = await this.readIssuers(unique);
+      await categoryService.attachCategories(issuers.filter((issuer): issuer is IssuerData => issuer !== null));
+
+      return Object.fromEntries(unique.map((address, i) => [address, issuers[i]]));
+    } catch (error) {
+      logger.error('Error looking up issuers:', error);
+      throw error;
+    }
+  }
+
+  // Status-only variant of lookupIssuers that reads two fields instead of whole hashes
+  async lookupIssuerStatuses(addresses: string[]): Promise<Record<string, IssuerStatusSummary | null>> {
+    try {
+      const unique = [...new Set(addresses.map(address => address.toLowerCase()))];
+      if (unique.length === 0) {
+        return {};
+      }
+
+      const pipeline = this.redis.pipeline();
+      for (const address of unique) {
+        pipeline.hmget(this.getIssuerKey(address), 'status', 'updatedAt');
+        pipeline.exists(this.getUnconfirmedKey(address));
+      }
+      const results = (await pipeline.exec()) || [];
+
+      return Object.fromEntries(unique.map((address, i) => {
+        const [fieldsError, fields] = results[i * 2] || [];
+        const [, unconfirmed] = results[i * 2 + 1] || [];
+        if (fieldsError) {
+          throw fieldsError;
+        }
+
+        const [status, updatedAt] = (fields || []) as (string | null)[];
+        const summary: IssuerStatusSummary | null = status
+          ? {
+            address,
+            status: status as IssuerStatus,
+            updatedAt: parseInt(updatedAt || '0', 10),
+            isFinal: !unconfirmed
+          }
+          : null;
+
+        return [address, summary];
+      }));
+    } catch (error) {
+      logger.error('Error looking up issuer statuses:', error);
+      throw error;
+    }
+  }
+
+  // Pipelined read of issuer hashes and tentative changes; null where an issuer is unknown
+  private async readIssuers(addresses: string[]): Promise<(IssuerData | null)[]> {
+    if (addresses.length === 0) {
+      return [];
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (const address of addresses) {
+      pipeline.hgetall(this.getIssuerKey(address));
+      pipeline.get(this.getUnconfirmedKey(address));
+    }
+
+    const results = (await pipeline.exec()) || [];
+    return addresses.map((_, i) => {
+      const [hashError, data] = results[i * 2] || [];
+      const [, unconfirmed] = results[i * 2 + 1] || [];
+      if (hashError) {
+        throw hashError;
+      }
+
+      return this.parseIssuer(data as Record<string, string>, unconfirmed as string | null);
+    });
+  }
+
+  private parseIssuer(data: Record<string, string> | null, unconfirmed: string | null): IssuerData | null {
+    if (!data || Object.keys(data).length === 0) {
+      return null;
+    }
+
+    const unconfirmedChange = unconfirmed
+      ? JSON.parse(unconfirmed) as UnconfirmedIssuerChange
+      : undefined;
+
+    return {
+      address: data.address,
+      name: data.name,
+      requestedCategories: JSON.parse(data.requestedCategories || '[]'),
+      proposedFixedFee: data.proposedFixedFee,
+      publicKey: data.publicKey,
+      stakeAmount: data.stakeAmount,
+      status: data.status as IssuerStatus,
+      attestationUID: data.attestationUID,
+      approveFixedFee: data.approveFixedFee ? data.approveFixedFee === 'true' : undefined,
+      submittedAt: parseInt(data.submittedAt),
+      updatedAt: parseInt(data.updatedAt),
+      txHash: data.txHash,
+      blockNumber: parseInt(data.blockNumber),
+      feePerCategory: data.feePerCategory || undefined,
+      registrationTime: data.registrationTime ? parseInt(data.registrationTime) : undefined,
+      decidedBy: data.decidedBy,
+      isFinal: !unconfirmedChange,
+      unconfirmedChange
+    };
+  }
+
+  /**
+   * Overwrite cached fields with contract state found by reconciliation. This corrects the
+   * cache rather than recording an event, so it is neither journaled nor added to history.
+   * The write only goes through while the issuer still has the status and updatedAt the
+   * contract was compared against; returns false when an event changed it in the meantime.
+   */
+  async applyContractState(
+    address: string,
+    expected: { status: IssuerStatus; updatedAt: number },
+    changes: { status?: IssuerStatus; updatedAt?: number; feePerCategory?: string; registrationTime?: number }
+  ): Promise<boolean> {
+    const fields: Record<string, string> = {};
+    if (changes.status) {
+      fields.status = changes.status;
+    }
+    if (changes.updatedAt !== undefined) {
+      fields.updatedAt = changes.updatedAt.toString();
+    }
+    if (changes.feePerCategory !== undefined) {
+      fields.feePerCategory = changes.feePerCategory;
+    }
+    if (changes.registrationTime !== undefined) {
+      fields.registrationTime = changes.registrationTime.toString();
+    }
+    if (Object.keys(fields).length === 0) {
+      return true;
+    }
+
+    // WATCH applies to a whole connection, so it gets one of its own
+    const client = this.redis.duplicate();
+    try {
+      const issuerKey = this.getIssuerKey(address);
+      await client.watch(issuerKey);
+
+      const data = await client.hgetall(issuerKey);
+      const { status } = data;
+      if (status !== expected.status || parseInt(data.updatedAt || '0', 10) !== expected.updatedAt) {
+        await client.unwatch();
+        logger.info('Issuer changed since it was compared, skipping repair', { address });
+        return false;
+      }
+
+      const transaction = client.multi();
+      transaction.hset(issuerKey, fields);
+      if (changes.status) {
+        this.indexIssuer(transaction, address, changes.status, changes.updatedAt ?? expected.updatedAt);
+
+        const categories = this.parseCategories(data.requestedCategories);
+        this.recountCategories(transaction, { status, categories }, { status: changes.status, categories });
+      }
+      this.reindexFields(transaction, address, data, { ...data, ...fields });
+
+      // exec() yields null when an event wrote the issuer after WATCH
+      if (!(await transaction.exec())) {
+        logger.info('Issuer changed while being repaired, skipping repair', { address });
+        return false;
+      }
+
+      logger.warn('Issuer repaired from contract state', { address, ...fields });
+      return true;
+    } catch (error) {
+      logger.error('Error applying contract state:', error);
+      throw error;
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  // Signing-key history as last read from the contract, or null if it was never stored
+  async getKeyHistory(address: string): Promise<StoredKeyHistory | null> {
+    const raw = await this.redis.get(this.getKeyHistoryKey(address));
+    return raw ? JSON.parse(raw) as StoredKeyHistory : null;
+  }
+
+  // Replace the stored key history with a fresh read of the contract
+  async storeKeyHistory(
+    address: string,
+    activeKeyIndex: number,
+    keys: OnchainKeyInfo[],
+    blockNumber: number | null
+  ): Promise<StoredKeyHistory> {
+    try {
+      const pipeline = this.redis.pipeline();
+      const stored = this.writeKeyHistory(pipeline, address, activeKeyIndex, keys, blockNumber);
+      await pipeline.exec();
+      return stored;
+    } catch (error) {
+      logger.error('Error storing key history:', error);
+      throw error;
+    }
+  }
+
+  private writeKeyHistory(
+    pipeline: ChainableCommander,
+    address: string,
+    activeKeyIndex: number,
+    keys: OnchainKeyInfo[],
+    blockNumber: number | null
+  ): StoredKeyHistory {
+    const stored: StoredKeyHistory = {
+      activeKeyIndex,
+      keys,
+      blockNumber,
+      refreshedAt: Date.now()
+    };
+
+    pipeline.set(this.getKeyHistoryKey(address), JSON.stringify(stored));
+    return stored;
+  }
+
+  // Chain position of the latest event applied to an issuer; null without history
+  async getLastAppliedEvent(address: string): Promise<{ blockNumber: number; logIndex: number } | null> {
+    const history = await this.getIssuerHistory(address);
+    const last = history[history.length - 1];
+    return last ? { blockNumber: last.blockNumber, logIndex: last.logIndex } : null;
+  }
+
+  // Get issuer event history ordered by block number and log index
+  async getIssuerHistory(address: string): Promise<IssuerHistoryEntry[]> {
+    try {
+      const entries = await this.redis.lrange(this.getHistoryKey(address), 0, -1);
+
+      return entries
+        .map(entry => JSON.parse(entry) as IssuerHistoryEntry)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    } catch (error) {
+      logger.error('Error getting issuer history:', error);
+      throw error;
+    }
+  }
+
+  async issuerExists(address: string): Promise<boolean> {
+    return (await this.redis.exists(this.getIssuerKey(address))) === 1;
+  }
+
+  // Get issuers by status with pagination, most recently updated first unless sorted otherwise
+  async getIssuersByStatus(params: IssuerQueryParams): Promise<IssuerListResponse> {
+    try {
+      if (!params.status) {
+        throw new Error('Status is required');
+      }
+
+      return await this.getIndexPage(this.getStatusIndexKey(params.status), params);
+    } catch (error) {
+      logger.error('Error getting issuers by status:', error);
+      throw error;
+    }
+  }
+
+  // Get issuers of every status with pagination, most recently updated first unless sorted otherwise
+  async getAllIssuers(params: Omit<IssuerQueryParams, 'status'> = {}): Promise<IssuerListResponse> {
+    try {
+      return await this.getIndexPage(this.getAllIndexKey(), params);
+    } catch (error) {
+      logger.error('Error getting all issuers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read one page of an index, newest first unless sorted otherwise. A cursor pages relative to the item it
+   * was issued for, so inserts and removals elsewhere never shift the page; without
+   * one, `offset` is used.
+   */
+  private async getIndexPage(indexKey: string, params: IssuerQueryParams): Promise<IssuerListResponse> {
+    const {
+      limit = 50,
+      offset = 0,
+      cursor,
+      filters,
+      sort = IssuerSortField.UPDATED_AT,
+      order = 'desc'
+    } = params;
+
+    // The request schema rejects these with a 400; this guards direct callers
+    const pageCursor = cursor ? decodeCursor(cursor) : null;
+    if (cursor && (!pageCursor || pageCursor.sort !== sort || pageCursor.order !== order)) {
+      throw new Error('Invalid cursor');
+    }
+
+    if (!filters || !Object.values(filters).some(value => value !== undefined)) {
+      return await this.getListingPage(indexKey, limit, offset, pageCursor, sort, order);
+    }
+
+    // Filters narrow the index into a temporary set first, so only matching issuers are read
+    const queryKey = this.getQueryKey(randomUUID());
+    try {
+      await this.narrowIndex(indexKey, filters, queryKey, QUERY_TTL);
+      return await this.getListingPage(queryKey, limit, offset, pageCursor, sort, order);
+    } finally {
+      await this.redis.del(queryKey);
+    }
+  }
+
+  /**
+   * One page of a set of issuers scored by updatedAt, in any sort order. Only the page is
+   * read: updatedAt pages come straight from the set, other fields from its intersection
+   * with the field's index, and names from a walk of the name index.
+   */
+  private async getListingPage(
+    key: string,
+    limit: number,
+    offset: number,
+    pageCursor: PageCursor | null,
+    sort: IssuerSortField,
+    order: SortOrder
+  ): Promise<IssuerListResponse> {
+    if (sort === IssuerSortField.UPDATED_AT) {
+      return await this.getSegmentedPage([key], key, limit, offset, pageCursor, sort, order);
+    }
+    if (sort === IssuerSortField.NAME) {
+      return await this.getNamePage(key, limit, offset, pageCursor, order);
+    }
+
+    // Issuers with a value, scored by it, then those without, which come last in either order
+    const sortKey = this.getQueryKey(randomUUID());
+    const segments = [`${sortKey}:values`, `${sortKey}:missing`];
+    try {
+      await this.redis.multi()
+        .zinterstore(segments[0], 2, key, this.getFieldIndexKey(sort), 'WEIGHTS', 0, 1)
+        .zdiffstore(segments[1], 2, key, this.getFieldIndexKey(sort))
+        .zunionstore(segments[1], 1, segments[1], 'WEIGHTS', 0)
+        .expire(segments[0], QUERY_TTL)
+        .expire(segments[1], QUERY_TTL)
+        .exec();
+
+      return await this.getSegmentedPage(segments, key, limit, offset, pageCursor, sort, order);
+    } finally {
+      await this.redis.del(...segments);
+    }
+  }
+
+  /**
+   * One page across sorted sets listed one after another, each in the requested order. With
+   * more than one set, the last holds the issuers without a value and its cursors carry a null
+   * score.
+   */
+  private async getSegmentedPage(
+    segments: string[],
+    totalKey: string,
+    limit: number,
+    offset: number,
+    pageCursor: PageCursor | null,
+    sort: IssuerSortField,
+    order: SortOrder
+  ): Promise<IssuerListResponse> {
+    const missing = segments.length > 1 ? segments.length - 1 : -1;
+    const entries: PageEntry[] = [];
+    const collect = (segment: number, members: ScoredMember[]) => {
+      for (const entry of members) {
+        entries.push({ member: entry.member, score: segment === missing ? null : entry.score });
+      }
+    };
+
+    // Fetch one extra item to learn whether another page follows
+    if (!pageCursor) {
+      let skip = offset;
+      for (let i = 0; i < segments.length && entries.length <= limit; i++) {
+        const size = await this.redis.zcard(segments[i]);
+        if (skip >= size) {
+          skip -= size;
+          continue;
+        }
+        collect(i, await this.readSegment(segments[i], order, true, skip, limit + 1 - entries.length));
+        skip = 0;
+      }
+      return this.buildListingPage(
+        entries, entries.length > limit, offset > 0, totalKey, limit, offset, pageCursor, sort, order
+      );
+    }
+
+    const forward = pageCursor.direction === 'next';
+    const start = pageCursor.score === null && missing !== -1 ? missing : 0;
+    const boundary = { score: pageCursor.score === null ? 0 : pageCursor.score as number, member: pageCursor.member };
+
+    // Lower scores follow in a descending listing and precede in an ascending one
+    collect(start, (order === 'desc') === forward
+      ? await this.getEntriesBelow(segments[start], boundary, limit + 1)
+      : await this.getEntriesAbove(segments[start], boundary, limit + 1));
+    const step = forward ? 1 : -1;
+    for (let i = start + step; i >= 0 && i < segments.length && entries.length <= limit; i += step) {
+      collect(i, await this.readSegment(segments[i], order, forward, 0, limit + 1 - entries.length));
+    }
+
+    const hasMore = entries.length > limit;
+    return this.buildListingPage(
+      entries, forward ? hasMore : true, forward ? true : hasMore, totalKey, limit, offset, pageCursor, sort, order
+    );
+  }
+
+  // Items of a sorted set from its start in listing order, or from its end (nearest the end first)
+  private async readSegment(
+    key: string,
+    order: SortOrder,
+    fromStart: boolean,
+    skip: number,
+    count: number
+  ): Promise<ScoredMember[]> {
+    const raw = (order === 'desc') === fromStart
+      ? await this.redis.zrevrange(key, skip, skip + count - 1, 'WITHSCORES')
+      : await this.redis.zrange(key, skip, skip + count - 1, 'WITHSCORES');
+    return this.parseScoredMembers(raw);
+  }
+
+  /**
+   * One page of a set of issuers by name. The name index is walked in order from the cursor
+   * (or the start) and each stretch is checked against the set, so reading stops at the page.
+   */
+  private async getNamePage(
+    key: string,
+    limit: number,
+    offset: number,
+    pageCursor: PageCursor | null,
+    order: SortOrder
+  ): Promise<IssuerListResponse> {
+    const forward = !pageCursor || pageCursor.direction === 'next';
+    const descending = (order === 'desc') === forward;
+    let bound = pageCursor
+      ? `(${this.getNameSortMember(pageCursor.score as string, pageCursor.member)}`
+      : descending ? '+' : '-';
+    let skip = pageCursor ? 0 : offset;
+    const entries: PageEntry[] = [];
+
+    while (entries.length <= limit) {
+      const members = descending
+        ? await this.redis.zrevrangebylex(this.getNameSortKey(), bound, '-', 'LIMIT', 0, NAME_PAGE_SIZE)
+        : await this.redis.zrangebylex(this.getNameSortKey(), bound, '+', 'LIMIT', 0, NAME_PAGE_SIZE);
+      if (members.length === 0) {
+        break;
+      }
+
+      const hits = members.map(member => {
+        const separator = member.lastIndexOf('\u0000');
+        return { member: member.slice(separator + 1), score: member.slice(0, separator) };
+      });
+      const listed = await this.redis.zmscore(key, ...hits.map(hit => hit.member));
+      hits.forEach((hit, i) => {
+        if (listed[i] === null || entries.length > limit) {
+          return;
+        }
+        if (skip > 0) {
+          skip--;
+          return;
+        }
+        entries.push(hit);
+      });
+
+      bound = `(${members[members.length - 1]}`;
+      if (members.length < NAME_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const hasMore = entries.length > limit;
+    const hasNext = pageCursor ? (forward ? hasMore : true) : hasMore;
+    const hasPrev = pageCursor ? (forward ? true : hasMore) : offset > 0;
+    return this.buildListingPage(entries, hasNext, hasPrev, key, limit, offset, pageCursor, IssuerSortField.NAME, order);
+  }
+
+  // Load the issuers of a page read one past `limit`, in listing order, and issue its cursors
+  private async buildListingPage(
+    entries: PageEntry[],
+    hasNext: boolean,
+    hasPrev: boolean,
+    totalKey: string,
+    limit: number,
+    offset: number,
+    pageCursor: PageCursor | null,
+    sort: IssuerSortField,
+    order: SortOrder
+  ): Promise<IssuerListResponse> {
+    const page = entries.slice(0, limit);
+    if (pageCursor && pageCursor.direction === 'prev') {
+      page.reverse();
+    }
+
+    const [total, issuers] = await Promise.all([
+      this.redis.zcard(totalKey),
+      this.getIssuersBatch(page.map(entry => entry.member))
+    ]);
+
+    const first = page[0];
+    const last = page[page.length - 1];
+
+    return {
+      issuers,
+      total,
+      limit,
+      offset: pageCursor ? 0 : offset,
+      nextCursor: hasNext && last
+        ? encodeCursor({ score: last.score, member: last.member, direction: 'next', sort, order })
+        : null,
+      prevCursor: hasPrev && first
+        ? encodeCursor({ score: first.score, member: first.member, direction: 'prev', sort, order })
+        : null
+    };
+  }
+
+  /**
+   * Copy the issuers of an index that match the filters into a set that expires after `ttl`
+   * seconds, still scored by updatedAt. Redis intersects the index with the category,
+   * deciding admin and per-field range sets, so no issuer is read to filter it.
+   */
+  private async narrowIndex(indexKey: string, filters: IssuerFilters, targetKey: string, ttl: number): Promise<void> {
+    const approved = filters.approveFixedFee === undefined ? undefined : Number(filters.approveFixedFee);
+    const ranges: [string, number | undefined, number | undefined][] = [
+      ['stakeAmount', this.toBoundScore(filters.minStakeAmount), this.toBoundScore(filters.maxStakeAmount)],
+      ['proposedFixedFee', this.toBoundScore(filters.minProposedFixedFee), this.toBoundScore(filters.maxProposedFixedFee)],
+      ['submittedAt', filters.submittedFrom, filters.submittedTo],
+      ['blockNumber', filters.fromBlock, filters.toBlock],
+      ['approveFixedFee', approved, approved]
+    ];
+    const rangeKey = `${targetKey}:range`;
+
+    // Index scores are updatedAt, so that range bounds the copy
+    const transaction = this.redis.multi().zrangestore(
+      targetKey,
+      indexKey,
+      filters.updatedFrom !== undefined ? filters.updatedFrom : '-inf',
+      filters.updatedTo !== undefined ? filters.updatedTo : '+inf',
+      'BYSCORE'
+    );
+
+    // Set members count as score 1, so a weight of 0 keeps the updatedAt scores
+    const sets = [
+      ...(filters.category ? [this.getCategoryIndexKey(filters.category)] : []),
+      ...(filters.caller ? [this.getCallerIndexKey(filters.caller)] : [])
+    ];
+    for (const setKey of sets) {
+      transaction.zinterstore(targetKey, 2, targetKey, setKey, 'WEIGHTS', 1, 0);
+    }
+    for (const [field, min, max] of ranges) {
+      if (min !== undefined || max !== undefined) {
+        transaction.zrangestore(rangeKey, this.getFieldIndexKey(field), min ?? '-inf', max ?? '+inf', 'BYSCORE');
+        transaction.zinterstore(targetKey, 2, targetKey, rangeKey, 'WEIGHTS', 1, 0);
+      }
+    }
+    await transaction.del(rangeKey).expire(targetKey, ttl).exec();
+
+    await this.dropRoundedMatches(targetKey, 'stakeAmount', filters.minStakeAmount, filters.maxStakeAmount);
+    await this.dropRoundedMatches(targetKey, 'proposedFixedFee', filters.minProposedFixedFee, filters.maxProposedFixedFee);
+  }
+
+  private toBoundScore(bound: string | undefined): number | undefined {
+    return bound === undefined ? undefined : Number(BigInt(bound));
+  }
+
+  /**
+   * Amount scores are rounded to doubles, so an issuer scored exactly on a rounded bound
+   * may lie just outside the range; check those against the stored value and drop them.
+   */
+  private async dropRoundedMatches(targetKey: string, field: string, min?: string, max?: string): Promise<void> {
+    for (const bound of [min, max]) {
+      const score = this.toBoundScore(bound);
+      if (score === undefined || Number.isSafeInteger(score)) {
+        continue;
+      }
+
+      const tied = await this.redis.zrangebyscore(this.getFieldIndexKey(field), score, score);
+      if (tied.length === 0) {
+        continue;
+      }
+      const scores = await this.redis.zmscore(targetKey, ...tied);
+      const matched = tied.filter((_, i) => scores[i] !== null);
+      if (matched.length === 0) {
+        continue;
+      }
+
+      const pipeline = this.redis.pipeline();
+      for (const member of matched) {
+        pipeline.hget(this.getIssuerKey(member), field);
+      }
+      const results = (await pipeline.exec()) || [];
+      const outside = matched.filter((_, i) => !this.inBigIntRange((results[i]?.[1] as string | null) || '', min, max));
+      if (outside.length > 0) {
+        await this.redis.zrem(targetKey, ...outside);
+      }
+    }
+  }
+
+  private matchesFilters(issuer: IssuerData, filters: IssuerFilters): boolean {
+    if (!this.inBigIntRange(issuer.stakeAmount, filters.minStakeAmount, filters.maxStakeAmount)) {
+      return false;
+    }
+    if (!this.inBigIntRange(issuer.proposedFixedFee, filters.minProposedFixedFee, filters.maxProposedFixedFee)) {
+      return false;
+    }
+    if (filters.submittedFrom !== undefined && issuer.submittedAt < filters.submittedFrom) {
+      return false;
+    }
+    if (filters.submittedTo !== undefined && issuer.submittedAt > filters.submittedTo) {
+      return false;
+    }
+    if (filters.approveFixedFee !== undefined && issuer.approveFixedFee !== filters.approveFixedFee) {
+      return false;
+    }
+    if (filters.fromBlock !== undefined && issuer.blockNumber < filters.fromBlock) {
+      return false;
+    }
+    if (filters.toBlock !== undefined && issuer.blockNumber > filters.toBlock) {
+      return false;
+    }
+    if (filters.caller && issuer.decidedBy !== filters.caller.toLowerCase()) {
+      return false;
+    }
+
+    return true;
+  }
+
+  // Amounts are uint256 values stored as decimal strings, so compare them as big integers
+  private inBigIntRange(value: string, min?: string, max?: string): boolean {
+    if (min === undefined && max === undefined) {
+      return true;
+    }
+
+    try {
+      const amount = BigInt(value);
+      return (min === undefined || amount >= BigInt(min)) && (max === undefined || amount <= BigInt(max));
+    } catch {
+      return false;
+    }
+  }
+
+  // Items scored below the cursor item (ties: lower addresses), nearest first
+  private async getEntriesBelow(indexKey: string, cursor: ScoredMember, count: number): Promise<ScoredMember[]> {
+    // Items sharing the cursor's score may sit on either side of it, so over-fetch by their number
+    const ties = await this.redis.zcount(indexKey, cursor.score, cursor.score);
+    const raw = await this.redis.zrevrangebyscore(
+      indexKey, cursor.score, '-inf', 'WITHSCORES', 'LIMIT', 0, count + ties
+    );
+
+    return this.parseScoredMembers(raw)
+      .filter(entry => entry.score < cursor.score || entry.member < cursor.member)
+      .slice(0, count);
+  }
+
+  // Items scored above the cursor item (ties: higher addresses), nearest first
+  private async getEntriesAbove(indexKey: string, cursor: ScoredMember, count: number): Promise<ScoredMember[]> {
+    const ties = await this.redis.zcount(indexKey, cursor.score, cursor.score);
+    const raw = await this.redis.zrangebyscore(
+      indexKey, cursor.score, '+inf', 'WITHSCORES', 'LIMIT', 0, count + ties
+    );
+
+    return this.parseScoredMembers(raw)
+      .filter(entry => entry.score > cursor.score || entry.member > cursor.member)
+      .slice(0, count);
+  }
+
+  private parseScoredMembers(raw: string[]): ScoredMember[] {
+    const entries: ScoredMember[] = [];
+    for (let i = 0; i < raw.length; i += 2) {
+      entries.push({ member: raw[i], score: parseFloat(raw[i + 1]) });
+    }
+    return entries;
+  }
+
+  /**
+   * Stream every issuer of an index that matches the filters, newest first, one batch of
+   * export rows at a time. The matching issuers are copied before the first read, so the export
+   * holds exactly the issuers indexed when it started, each once, even if they are updated
+   * mid-export; rows carry the state at the time their batch is read.
+   */
+  async *streamIssuerExport(params: IssuerExportParams = {}): AsyncGenerator<IssuerExportRow[]> {
+    const { status, filters = {} } = params;
+    const indexKey = status ? this.getStatusIndexKey(status) : this.getAllIndexKey();
+    const snapshotKey = this.getExportSnapshotKey(randomUUID());
+
+    try {
+      await this.narrowIndex(indexKey, filters, snapshotKey, EXPORT_SNAPSHOT_TTL);
+
+      for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+        const [[, members], [, renewed]] = (await this.redis.multi()
+          .zrevrange(snapshotKey, offset, offset + EXPORT_BATCH_SIZE - 1)
+          .expire(snapshotKey, EXPORT_SNAPSHOT_TTL)
+          .exec()) as [[Error | null, string[]], [Error | null, number]];
+
+        if (offset > 0 && renewed === 0) {
+          throw new Error('Export snapshot expired');
+        }
+
+        // Issuers updated since the snapshot are checked against the filters again
+        const rows = await this.getExportRows(members, filters);
+        if (rows.length > 0) {
+          yield rows;
+        }
+
+        if (members.length < EXPORT_BATCH_SIZE) {
+          break;
+        }
+      }
+    } finally {
+      await this.redis.del(snapshotKey);
+    }
+  }
+
+  // Confirmed state of the given issuers as export rows, with decision dates from their history
+  private async getExportRows(addresses: string[], filters: IssuerFilters): Promise<IssuerExportRow[]> {
+    if (addresses.length === 0) {
+      return [];
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (const address of addresses) {
+      pipeline.hgetall(this.getIssuerKey(address));
+      pipeline.lrange(this.getHistoryKey(address), 0, -1);
+    }
+    const results = (await pipeline.exec()) || [];
+
+    const matches: { issuer: IssuerData; data: Record<string, string>; history: IssuerHistoryEntry[] }[] = [];
+    for (let i = 0; i < addresses.length; i++) {
+      const [hashError, data] = results[i * 2] || [];
+      const [, history] = results[i * 2 + 1] || [];
+      if (hashError) {
+        throw hashError;
+      }
+
+      const issuer = this.parseIssuer(data as Record<string, string>, null);
+      if (issuer && this.matchesFilters(issuer, filters)) {
+        matches.push({
+          issuer,
+          data: data as Record<string, string>,
+          history: ((history || []) as string[]).map(entry => JSON.parse(entry) as IssuerHistoryEntry)
+        });
+      }
+    }
+
+    await categoryService.attachCategories(matches.map(match => match.issuer));
+
+    const toIso = (timestamp?: number) => (timestamp ? new Date(timestamp).toISOString() : null);
+    const lastEventAt = (history: IssuerHistoryEntry[], event: IssuerEventType) => {
+      const entries = history.filter(entry => entry.event === event);
+      return entries.length > 0 ? toIso(Math.max(...entries.map(entry => entry.timestamp))) : null;
+    };
+
+    return matches.map(({ issuer, data, history }) => ({
+      address: issuer.address,
+      name: issuer.name,
+      status: issuer.status,
+      categories: (issuer.categories || []).map(category => category.label || category.id),
+      categoryIds: issuer.requestedCategories,
+      // uint256 amounts are stored as exact decimal strings and copied through unchanged
+      stakeAmount: data.stakeAmount,
+      proposedFixedFee: data.proposedFixedFee,
+      feePerCategory: issuer.feePerCategory ?? null,
+      approveFixedFee: issuer.approveFixedFee ?? null,
+      attestationUID: issuer.attestationUID || null,
+      decidedBy: issuer.decidedBy || null,
+      submittedAt: toIso(issuer.submittedAt),
+      approvedAt: lastEventAt(history, IssuerEventType.APPROVED),
+      rejectedAt: lastEventAt(history, IssuerEventType.REJECTED),
+      revokedAt: lastEventAt(history, IssuerEventType.REVOKED),
+      updatedAt: toIso(issuer.updatedAt),
+      registrationTime: data.registrationTime || null,
+      blockNumber: issuer.blockNumber,
+      txHash: issuer.txHash,
+      publicKey: issuer.publicKey
+    }));
+  }
+
+  /**
+   * Case-insensitive search on issuer names (prefix and substring) and addresses
+   * (partial hex). Exact and prefix matches rank above substring matches; ties go to
+   * the most recently updated issuer. The index is read tier by tier in rank order.
+   * A tier's hits (up to SEARCH_BAND_LIMIT per band) are ordered by rank and recency
+   * before any issuer is loaded, so neither weaker matches, other statuses nor
+   * alphabetical order can crowd out the best ones.
+   */
+  async searchIssuers(params: IssuerSearchParams): Promise<IssuerSearchResult[]> {
+    try {
+      const { status, limit = 20 } = params;
+      const query = this.normalizeSearchText(params.q);
+      if (!query) {
+        return [];
+      }
+
+      const hexQuery = query.replace(/^0x/, '');
+      const isHex = /^[0-9a-f]+$/.test(hexQuery);
+      const names = this.getNameSearchKey();
+      const addresses = this.getAddressSearchKey();
+
+      // Rank of a hit from the indexed text alone: exact 100, then the band's score
+      const tiers: [string, SearchBand, string, number][][] = [
+        [
+          [names, SearchBand.START, query, 80],
+          ...(isHex ? [[addresses, SearchBand.START, hexQuery, 70]] as [string, SearchBand, string, number][] : [])
+        ],
+        [[names, SearchBand.WORD, query, 60]],
+        [[names, SearchBand.INNER, query, 40]],
+        isHex ? [[addresses, SearchBand.INNER, hexQuery, 30]] : []
+      ];
+
+      // Recency comes from the index the results are filtered by; absent means another status
+      const recencyKey = status ? this.getStatusIndexKey(status) : this.getAllIndexKey();
+
+      const results: IssuerSearchResult[] = [];
+      const seen = new Set<string>();
+
+      for (const tier of tiers) {
+        const ranks = new Map<string, number>();
+        for (const [indexKey, band, text, bandRank] of tier) {
+          for (const hit of await this.readSearchBand(indexKey, band, text)) {
+            if (!seen.has(hit.address)) {
+              const rank = hit.text === text ? 100 : bandRank;
+              ranks.set(hit.address, Math.max(ranks.get(hit.address) ?? 0, rank));
+            }
+          }
+        }
+        if (ranks.size === 0) {
+          continue;
+        }
+
+        const candidates = [...ranks.keys()];
+        candidates.forEach(address => seen.add(address));
+        const scores = await this.redis.zmscore(recencyKey, ...candidates);
+        const ranked = candidates
+          .map((address, i) => ({ address, rank: ranks.get(address)!, updatedAt: scores[i] }))
+          .filter(candidate => candidate.updatedAt !== null)
+          .sort((a, b) => b.rank - a.rank || Number(b.updatedAt) - Number(a.updatedAt));
+
+        // Load the best candidates until the tier has contributed `limit` verified matches
+        let added = 0;
+        for (let i = 0; i < ranked.length && added < limit; i += limit) {
+          const batch = ranked.slice(i, i + limit).map(candidate => candidate.address);
+          for (const issuer of await this.getIssuersBatch(batch)) {
+            const result = this.scoreSearchHit(issuer, query, isHex ? hexQuery : null);
+            if (result && (!status || issuer.status === status)) {
+              results.push(result);
+              added++;
+            }
+          }
+        }
+
+        // Later tiers can only hold weaker matches
+        if (results.length >= limit) {
+          break;
+        }
+      }
+
+      return results
+        .sort((a, b) => b.score - a.score || b.issuer.updatedAt - a.issuer.updatedAt)
+        .slice(0, limit);
+    } catch (error) {
+      logger.error('Error searching issuers:', error);
+      throw error;
+    }
+  }
+
+  private scoreSearchHit(issuer: IssuerData, query: string, hexQuery: string | null): IssuerSearchResult | null {
+    const nameScore = this.scoreNameMatch(this.normalizeSearchText(issuer.name || ''), query);
+    const addressScore = hexQuery ? this.scoreAddressMatch(issuer.address.replace(/^0x/, ''), hexQuery) : 0;
+
+    // Long queries are looked up by their indexed prefix, so verify the full match here
+    if (nameScore === 0 && addressScore === 0) {
+      return null;
+    }
+
+    return {
+      issuer,
+      score: Math.max(nameScore, addressScore),
+      matchedOn: nameScore >= addressScore ? 'name' : 'address'
+    };
+  }
+
+  // Hits in a band whose indexed suffix starts with the query, with the indexed text of each
+  private async readSearchBand(
+    indexKey: string,
+    band: SearchBand,
+    query: string
+  ): Promise<{ address: string; text: string }[]> {
+    const prefix = `${band}${query.slice(0, SEARCH_SUFFIX_LENGTH)}`;
+    const min = Buffer.from(`[${prefix}`);
+    // 0xff sorts after every UTF-8 byte, so this bounds all members starting with the prefix
+    const max = Buffer.concat([Buffer.from(`[${prefix}`), Buffer.from([0xff])]);
+
+    const hits: { address: string; text: string }[] = [];
+    for (let offset = 0; offset < SEARCH_BAND_LIMIT; offset += SEARCH_PAGE_SIZE) {
+      const members = await this.redis.zrangebylex(indexKey, min, max, 'LIMIT', offset, SEARCH_PAGE_SIZE);
+      for (const member of members) {
+        const separator = member.lastIndexOf('\u0000');
+        hits.push({ address: member.slice(separator + 1), text: member.slice(1, separator) });
+      }
+      if (members.length < SEARCH_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return hits;
+  }
+
+  private scoreNameMatch(name: string, query: string): number {
+    if (!name || !name.includes(query)) {
+      return 0;
+    }
+    if (name === query) {
+      return 100;
+    }
+    if (name.startsWith(query)) {
+      return 80;
+    }
+    if (name.split(' ').some(word => word.startsWith(query))) {
+      return 60;
+    }
+    return 40;
+  }
+
+  private scoreAddressMatch(hex: string, query: string): number {
+    if (!hex.includes(query)) {
+      return 0;
+    }
+    if (hex === query) {
+      return 100;
+    }
+    return hex.startsWith(query) ? 70 : 30;
+  }
+
+  // Number of issuers per status (and overall), read from the index cardinalities
+  async getStatusCounts(): Promise<Record<IssuerStatus, number> & { total: number }> {
+    const statuses = Object.values(IssuerStatus);
+    const pipeline = this.redis.pipeline();
+    for (const status of statuses) {
+      pipeline.zcard(this.getStatusIndexKey(status));
+    }
+    pipeline.zcard(this.getAllIndexKey());
+
+    const results = (await pipeline.exec()) || [];
+    const counts = {} as Record<IssuerStatus, number> & { total: number };
+    statuses.forEach((status, i) => {
+      counts[status] = Number(results[i]?.[1] || 0);
+    });
+    counts.total = Number(results[statuses.length]?.[1] || 0);
+
+    return counts;
+  }
+
+  // Number of issuers per status for every category that has at least one issuer
+  async getCategoryStatusCounts(): Promise<Map<string, CategoryStatusCounts>> {
+    try {
+      const counts = new Map<string, CategoryStatusCounts>();
+      const fields = await this.redis.hgetall(this.getCategoryCountsKey());
+
+      for (const [field, value] of Object.entries(fields)) {
+        const separator = field.lastIndexOf(':');
+        const category = field.slice(0, separator);
+        const status = field.slice(separator + 1);
+        const count = parseInt(value, 10);
+        if (!Object.values(IssuerStatus).includes(status as IssuerStatus) || !(count > 0)) {
+          continue;
+        }
+
+        let categoryCounts = counts.get(category);
+        if (!categoryCounts) {
+          categoryCounts = Object.fromEntries(
+            Object.values(IssuerStatus).map(indexStatus => [indexStatus, 0])
+          ) as CategoryStatusCounts;
+          categoryCounts.total = 0;
+          counts.set(category, categoryCounts);
+        }
+
+        categoryCounts[status as IssuerStatus] += count;
+        categoryCounts.total += count;
+      }
+
+      return counts;
+    } catch (error) {
+      logger.error('Error counting issuers per category:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the status, category and decision indexes from the issuer hashes when they
+   * were written by an earlier version (including the status lists of the first one).
+   * Stats counters are recounted from the event histories at the same time. Replicas
+   * starting together take a lock so only one rebuilds while the others wait for it.
+   */
+  async migrateIndexes(): Promise<boolean> {
+    try {
+      if (await this.getIndexVersion() >= INDEX_VERSION) {
+        return false;
+      }
+
+      // Only one replica rebuilds; the others wait until it has finished
+      const lockId = randomUUID();
+      while (!(await acquireLock(this.redis, this.getMigrationLockKey(), lockId, MIGRATION_LOCK_TTL))) {
+        logger.info('Another instance is rebuilding issuer indexes, waiting...');
+        await new Promise(resolve => setTimeout(resolve, MIGRATION_POLL_INTERVAL));
+        if (await this.getIndexVersion() >= INDEX_VERSION) {
+          return false;
+        }
+      }
+
+      try {
+        return await this.rebuildIndexes(lockId);
+      } finally {
+        await releaseLock(this.redis, this.getMigrationLockKey(), lockId);
+      }
+    } catch (error) {
+      logger.error('Error migrating issuer indexes:', error);
+      throw error;
+    }
+  }
+
+  private async getIndexVersion(): Promise<number> {
+    return parseInt((await this.redis.get(this.getIndexVersionKey())) || '0', 10);
+  }
+
+  // Extend the migration lock, failing the migration if another instance has taken it over
+  private async renewMigrationLock(lockId: string): Promise<void> {
+    if (!(await renewLock(this.redis, this.getMigrationLockKey(), lockId, MIGRATION_LOCK_TTL))) {
+      throw new Error('Index migration lock was lost');
+    }
+  }
+
+  /**
+   * Rebuild every index from the issuer hashes; runs under the migration lock. The indexes
+   * are written beside the live ones and swapped in at the end, so the API keeps serving the
+   * old indexes meanwhile. This instance only starts indexing once the migration returns.
+   */
+  private async rebuildIndexes(lockId: string): Promise<boolean> {
+    // The previous holder may have finished while we were waiting for the lock
+    const version = await this.getIndexVersion();
+    if (version >= INDEX_VERSION) {
+      return false;
+    }
+
+    logger.info(`Rebuilding issuer indexes (version ${version} -> ${INDEX_VERSION})...`);
+
+    // Copies left behind by an interrupted rebuild
+    const leftovers = await this.scanKeys(`${REBUILD_PREFIX}*`);
+    if (leftovers.length > 0) {
+      await this.redis.del(...leftovers);
+    }
+
+    const addresses = await this.listIssuerAddresses();
+    for (let i = 0; i < addresses.length; i += 500) {
+      const batch = addresses.slice(i, i + 500);
+
+      const readPipeline = this.redis.pipeline();
+      for (const address of batch) {
+        readPipeline.hgetall(this.getIssuerKey(address));
+      }
+      const results = (await readPipeline.exec()) || [];
+
+      const writePipeline = this.redis.pipeline();
+      for (let j = 0; j < batch.length; j++) {
+        const address = batch[j];
+        const data = { ...(results[j]?.[1] || {}) as Record<string, string> };
+        const { status } = data;
+        if (!status) {
+          continue;
+        }
+
+        // Earlier versions kept the previous decision on a resubmitted application
+        if (data.decidedBy && status === IssuerStatus.PENDING) {
+          writePipeline.hdel(this.getIssuerKey(address), ...DECISION_FIELDS);
+          DECISION_FIELDS.forEach(field => delete data[field]);
+        }
+
+        // Earlier versions only kept the deciding admin in the history
+        if (!data.decidedBy && status !== IssuerStatus.PENDING) {
+          const caller = (await this.getIssuerHistory(address))
+            .reverse()
+            .find(entry => entry.caller)?.caller;
+          if (caller) {
+            writePipeline.hset(this.getIssuerKey(address), 'decidedBy', caller);
+            data.decidedBy = caller;
+          }
+        }
+
+        const updatedAt = parseInt(data.updatedAt || '0', 10);
+        this.indexIssuer(writePipeline, address, status as IssuerStatus, updatedAt, REBUILD_PREFIX);
+        const categories = this.parseCategories(data.requestedCategories);
+        this.reindexCategories(writePipeline, address, [], categories, REBUILD_PREFIX);
+        this.recountCategories(writePipeline, { categories: [] }, { status, categories }, REBUILD_PREFIX);
+        this.reindexFields(writePipeline, address, null, data, REBUILD_PREFIX);
+        this.reindexSearch(writePipeline, address, undefined, data.name || '', REBUILD_PREFIX);
+      }
+      await writePipeline.exec();
+      await this.renewMigrationLock(lockId);
+    }
+
+    await this.buildStats(addresses, REBUILD_PREFIX);
+    await this.renewMigrationLock(lockId);
+
+    // Live keys to replace, including status lists of the first version and sets now empty
+    const liveKeys = [
+      ...Object.values(IssuerStatus).map(status => this.getStatusIndexKey(status)),
+      this.getAllIndexKey(),
+      this.getNameSearchKey(),
+      this.getAddressSearchKey(),
+      this.getCategoryCountsKey(),
+      ...SCORED_FIELDS.map(field => this.getFieldIndexKey(field)),
+      this.getNameSortKey(),
+      ...await this.scanRebuiltKeys('issuers:category:*'),
+      ...await this.scanRebuiltKeys('issuers:decided_by:*'),
+      ...statsService.getKeys()
+    ];
+    await this.swapRebuiltKeys(liveKeys, transaction => {
+      transaction.set(this.getIndexVersionKey(), INDEX_VERSION.toString());
+    });
+
+    logger.info(`Rebuilt indexes for ${addresses.length} issuers`);
+    return true;
+  }
+
+  // Recount the stats counters by replaying every issuer's event history, then swap them in
+  async rebuildStats(addresses?: string[]): Promise<void> {
+    try {
+      const issuers = addresses || await this.listIssuerAddresses();
+
+      await this.redis.del(...statsService.getKeys(REBUILD_PREFIX));
+      await this.buildStats(issuers, REBUILD_PREFIX);
+      await this.swapRebuiltKeys(statsService.getKeys());
+    } catch (error) {
+      logger.error('Error rebuilding stats:', error);
+      throw error;
+    }
+  }
+
+  // Count every issuer's event history into the stats counters under `prefix`
+  private async buildStats(issuers: string[], prefix: string): Promise<void> {
+    for (let i = 0; i < issuers.length; i += 500) {
+      const batch = issuers.slice(i, i + 500);
+      const histories = await Promise.all(batch.map(address => this.getIssuerHistory(address)));
+
+      const pipeline = this.redis.pipeline();
+      for (const history of histories) {
+        let pendingSince: number | undefined;
+        for (const entry of history) {
+          statsService.recordEvent(pipeline, entry.event, entry, pendingSince, prefix);
+          pendingSince = entry.status === IssuerStatus.PENDING ? entry.timestamp : undefined;
+        }
+      }
+      await pipeline.exec();
+    }
+
+    logger.info(`Rebuilt stats from the history of ${issuers.length} issuers`);
+  }
+
+  /**
+   * Replace live keys with their rebuilt copies in one transaction; a live key whose copy
+   * was never written (nothing to index) is deleted. `extend` adds commands to the same
+   * transaction.
+   */
+  private async swapRebuiltKeys(
+    liveKeys: string[],
+    extend?: (transaction: ChainableCommander) => void
+  ): Promise<void> {
+    const existsPipeline = this.redis.pipeline();
+    for (const key of liveKeys) {
+      existsPipeline.exists(`${REBUILD_PREFIX}${key}`);
+    }
+    const results = (await existsPipeline.exec()) || [];
+
+    const transaction = this.redis.multi();
+    liveKeys.forEach((key, i) => {
+      if (results[i]?.[1] === 1) {
+        transaction.rename(`${REBUILD_PREFIX}${key}`, key);
+      } else {
+        transaction.del(key);
+      }
+    });
+    extend?.(transaction);
+    await transaction.exec();
+  }
+
+  // Live keys matching the pattern together with those a rebuild wrote a copy of
+  private async scanRebuiltKeys(pattern: string): Promise<string[]> {
+    const rebuilt = (await this.scanKeys(`${REBUILD_PREFIX}${pattern}`)).map(key => key.slice(REBUILD_PREFIX.length));
+    return [...new Set([...await this.scanKeys(pattern), ...rebuilt])];
+  }
+
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [nextCursor, batch] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+      cursor = nextCursor;
+      keys.push(...batch);
+    } while (cursor !== '0');
+
+    return keys;
   }
 
   // Health check
@@ -0,0 +1,239 @@
+import os from 'os';
+import Redis from 'ioredis';
+import config from '../config';
+import redisClient from '../database/redis';
+import logger from '../utils/logger';
+import { acquireLock, renewLock, releaseLock } from '../utils/redisLock';
+
+export type InstanceRole = 'leader' | 'follower' | 'standalone';
+
+export interface LeaderStatus {
+  role: InstanceRole;
+  instanceId: string;
+  leaderId: string | null;
+  leaseTtl: number;
+  leaseExpiresAt?: number;
+  electedAt?: number;
+}
+
+export interface LeadershipHandlers {
+  onElected: () => Promise<void>;
+  onDemoted: () => Promise<void>;
+  // Called at once when the lease is lost, before onDemoted waits for a start in progress
+  onLost?: () => void;
+}
+
+/**
+ * Redis lease that elects one replica to run the indexer. The leader renews the
+ * lease periodically; when it stops renewing, the lease expires and another
+ * replica takes over.
+ */
+export class LeaderElectionService {
+  private redis: Redis;
+  private instanceId: string;
+  private role: InstanceRole = 'follower';
+  private leaderId: string | null = null;
+  private leaseExpiresAt?: number;
+  private electedAt?: number;
+  private timer: NodeJS.Timeout | null = null;
+  private handlers: LeadershipHandlers | null = null;
+  private transition: Promise<void> = Promise.resolve();
+  private jobTimer: NodeJS.Timeout | null = null;
+  private holdsJobLease: boolean = false;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+    this.instanceId = config.leaderElection.instanceId || `${os.hostname()}:${process.pid}`;
+  }
+
+  // Redis key generators
+  private getLeaseKey(): string {
+    return 'indexer:leader';
+  }
+
+  /**
+   * Start competing for the lease. Without leader election every instance indexes.
+   */
+  async start(handlers: LeadershipHandlers): Promise<void> {
+    this.handlers = handlers;
+
+    if (!config.leaderElection.enabled) {
+      this.role = 'standalone';
+      this.leaderId = this.instanceId;
+      logger.info('Leader election disabled, this instance runs the indexer');
+      await handlers.onElected();
+      return;
+    }
+
+    logger.info('Starting leader election', {
+      instanceId: this.instanceId,
+      leaseTtl: config.leaderElection.leaseTtl
+    });
+
+    await this.tick();
+    this.timer = setInterval(() => this.tick(), config.leaderElection.renewInterval);
+  }
+
+  /**
+   * Stop competing and hand the lease over immediately if we hold it
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.role === 'leader') {
+      await this.releaseLease();
+    }
+  }
+
+  getStatus(): LeaderStatus {
+    return {
+      role: this.role,
+      instanceId: this.instanceId,
+      leaderId: this.leaderId,
+      leaseTtl: config.leaderElection.leaseTtl,
+      leaseExpiresAt: this.role === 'leader' ? this.leaseExpiresAt : undefined,
+      electedAt: this.role !== 'follower' ? this.electedAt : undefined
+    };
+  }
+
+  /**
+   * Take the indexer lease for a one-off job such as the backfill script, so no replica
+   * indexes while it runs. Returns false when another instance holds the lease. The lease
+   * is renewed until releaseJobLease; hasJobLease turns false if a renewal fails.
+   */
+  async acquireJobLease(): Promise<boolean> {
+    const leaseTtl = config.leaderElection.leaseTtl;
+    if (!(await acquireLock(this.redis, this.getLeaseKey(), this.instanceId, leaseTtl))) {
+      this.leaderId = await this.redis.get(this.getLeaseKey());
+      return false;
+    }
+
+    this.holdsJobLease = true;
+    this.jobTimer = setInterval(async () => {
+      try {
+        if (!(await renewLock(this.redis, this.getLeaseKey(), this.instanceId, leaseTtl))) {
+          logger.warn('Indexer lease was lost while a job held it');
+          this.holdsJobLease = false;
+        }
+      } catch (error) {
+        logger.error('Error renewing indexer lease for job:', error);
+      }
+    }, config.leaderElection.renewInterval);
+
+    return true;
+  }
+
+  hasJobLease(): boolean {
+    return this.holdsJobLease;
+  }
+
+  async releaseJobLease(): Promise<void> {
+    if (this.jobTimer) {
+      clearInterval(this.jobTimer);
+      this.jobTimer = null;
+    }
+
+    if (this.holdsJobLease) {
+      this.holdsJobLease = false;
+      await releaseLock(this.redis, this.getLeaseKey(), this.instanceId);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.role === 'leader' || this.role === 'standalone';
+  }
+
+  private async tick(): Promise<void> {
+    const leaseTtl = config.leaderElection.leaseTtl;
+
+    try {
+      if (this.role === 'leader') {
+        if (await renewLock(this.redis, this.getLeaseKey(), this.instanceId, leaseTtl)) {
+          this.leaseExpiresAt = Date.now() + leaseTtl;
+          return;
+        }
+
+        logger.warn('Leader lease was lost to another instance');
+        this.demote();
+        return;
+      }
+
+      if (await acquireLock(this.redis, this.getLeaseKey(), this.instanceId, leaseTtl)) {
+        this.leaseExpiresAt = Date.now() + leaseTtl;
+        this.elect();
+        return;
+      }
+
+      this.leaderId = await this.redis.get(this.getLeaseKey());
+    } catch (error) {
+      logger.error('Leader election error:', error);
+
+      // Without Redis we cannot prove the lease is still ours once it would have expired
+      if (this.role === 'leader' && this.leaseExpiresAt !== undefined && Date.now() >= this.leaseExpiresAt) {
+        logger.warn('Leader lease expired while Redis was unreachable');
+        this.demote();
+      }
+    }
+  }
+
+  private elect(): void {
+    this.role = 'leader';
+    this.leaderId = this.instanceId;
+    this.electedAt = Date.now();
+    logger.info('Elected indexer leader', { instanceId: this.instanceId });
+
+    this.runTransition(async () => {
+      try {
+        await this.handlers!.onElected();
+      } catch (error) {
+        // Interrupted by a demotion; onDemoted is already queued
+        if (this.role !== 'leader') {
+          logger.warn('Leadership lost while starting the indexer:', error);
+          return;
+        }
+
+        // Give another replica (or a later attempt of this one) the chance to index
+        logger.error('Failed to start indexing as leader, releasing lease:', error);
+        await this.releaseLease();
+        await this.handlers!.onDemoted();
+      }
+    });
+  }
+
+  private demote(): void {
+    this.role = 'follower';
+    this.leaderId = null;
+    this.leaseExpiresAt = undefined;
+    logger.warn('Demoted to follower, stopping indexer', { instanceId: this.instanceId });
+
+    // Abort a start still in progress now; waiting for it would leave two indexers running
+    this.handlers!.onLost?.();
+    this.runTransition(() => this.handlers!.onDemoted());
+  }
+
+  private async releaseLease(): Promise<void> {
+    try {
+      await releaseLock(this.redis, this.getLeaseKey(), this.instanceId);
+      logger.info('Released indexer leadership');
+    } catch (error) {
+      logger.error('Error releasing leader lease:', error);
+    }
+    this.role = 'follower';
+    this.leaderId = null;
+    this.leaseExpiresAt = undefined;
+  }
+
+  // Run leadership callbacks one at a time, in the order the role changed
+  private runTransition(transition: () => Promise<void>): void {
+    this.transition = this.transition
+      .then(transition)
+      .catch(error => {
+        logger.error('Error during leadership transition:', error);
+      });
+  }
+}
+
+export default new LeaderElectionService();
@@ -0,0 +1,162 @@
+import { Log } from 'ethers';
+import logger from '../utils/logger';
+
+export interface LogRangeMetrics {
+  maxRange: number;
+  safeRange: number;
+  rangeErrors: number;
+  splits: number;
+  lastRangeError?: string;
+  lastRangeErrorAt?: number;
+}
+
+// Messages providers use when a getLogs range or result set is too large. Error codes
+// alone are not enough: Infura's -32005 also means "rate limited", which must fail over
+const RANGE_ERROR_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide|big)/i,
+  /too many (results|logs|blocks)/i,
+  /query returned more than \d+ results/i,
+  /response size (exceeded|should not)/i,
+  /logs are limited/i,
+  /limited to a [\d,]+ (block )?range/i,
+  /range limit/i
+];
+
+// Shape of ethers errors and the JSON-RPC error payloads they wrap
+interface RpcErrorLike {
+  code?: unknown;
+  message?: unknown;
+  error?: unknown;
+  info?: { error?: unknown; responseBody?: unknown };
+  cause?: unknown;
+}
+
+function isRpcErrorLike(value: unknown): value is RpcErrorLike {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Fetches logs over block ranges, splitting requests by bisection when the
+ * provider rejects a range and remembering the largest size that works.
+ */
+export class AdaptiveLogFetcher {
+  private readonly maxRange: number;
+  private readonly growAfterSuccesses: number;
+  private safeRange: number;
+  private consecutiveSuccesses: number = 0;
+  private rangeErrors: number = 0;
+  private splits: number = 0;
+  private lastRangeError?: string;
+  private lastRangeErrorAt?: number;
+
+  constructor(maxRange: number, growAfterSuccesses: number = 20) {
+    this.maxRange = Math.max(1, maxRange);
+    this.safeRange = this.maxRange;
+    this.growAfterSuccesses = growAfterSuccesses;
+  }
+
+  getSafeRange(): number {
+    return this.safeRange;
+  }
+
+  getMetrics(): LogRangeMetrics {
+    return {
+      maxRange: this.maxRange,
+      safeRange: this.safeRange,
+      rangeErrors: this.rangeErrors,
+      splits: this.splits,
+      lastRangeError: this.lastRangeError,
+      lastRangeErrorAt: this.lastRangeErrorAt
+    };
+  }
+
+  /**
+   * Fetch every log in [fromBlock, toBlock], walking the range in chunks of the
+   * current safe size
+   */
+  async fetch(
+    fromBlock: number,
+    toBlock: number,
+    query: (fromBlock: number, toBlock: number) => Promise<Log[]>
+  ): Promise<Log[]> {
+    const logs: Log[] = [];
+    let chunkStart = fromBlock;
+
+    while (chunkStart <= toBlock) {
+      const chunkEnd = Math.min(chunkStart + this.safeRange - 1, toBlock);
+      logs.push(...await this.fetchRange(chunkStart, chunkEnd, query));
+      chunkStart = chunkEnd + 1;
+    }
+
+    return logs;
+  }
+
+  /**
+   * Fetch a single range, bisecting it when the provider rejects its size
+   */
+  async fetchRange(
+    fromBlock: number,
+    toBlock: number,
+    query: (fromBlock: number, toBlock: number) => Promise<Log[]>
+  ): Promise<Log[]> {
+    try {
+      const logs = await query(fromBlock, toBlock);
+      this.recordSuccess(toBlock - fromBlock + 1);
+      return logs;
+    } catch (error) {
+      if (!this.isRangeError(error) || fromBlock >= toBlock) {
+        throw error;
+      }
+
+      const midBlock = Math.floor((fromBlock + toBlock) / 2);
+      this.recordRangeError(error, midBlock - fromBlock + 1);
+
+      logger.warn(`getLogs range ${fromBlock}-${toBlock} rejected by provider, splitting at ${midBlock}`, {
+        safeRange: this.safeRange
+      });
+
+      const left = await this.fetchRange(fromBlock, midBlock, query);
+      const right = await this.fetchRange(midBlock + 1, toBlock, query);
+      return [...left, ...right];
+    }
+  }
+
+  isRangeError(error: unknown): boolean {
+    const candidates: unknown[] = [error];
+    if (isRpcErrorLike(error)) {
+      const info = typeof error.info === 'object' && error.info !== null ? error.info : undefined;
+      candidates.push(error.error, info?.error, info?.responseBody, error.cause);
+    }
+
+    return candidates.some(candidate => {
+      const message = typeof candidate === 'string'
+        ? candidate
+        : isRpcErrorLike(candidate) && typeof candidate.message === 'string' ? candidate.message : '';
+      return RANGE_ERROR_PATTERNS.some(pattern => pattern.test(message));
+    });
+  }
+
+  private recordRangeError(error: unknown, attemptedRange: number): void {
+    this.rangeErrors++;
+    this.splits++;
+    this.consecutiveSuccesses = 0;
+    this.safeRange = Math.max(1, Math.min(this.safeRange, attemptedRange));
+    this.lastRangeError = error instanceof Error ? error.message : String(error);
+    this.lastRangeErrorAt = Date.now();
+  }
+
+  // Slowly probe larger ranges again once requests keep succeeding
+  private recordSuccess(range: number): void {
+    if (range < this.safeRange) {
+      return;
+    }
+
+    this.consecutiveSuccesses++;
+    if (this.consecutiveSuccesses >= this.growAfterSuccesses && this.safeRange < this.maxRange) {
+      this.safeRange = Math.min(this.maxRange, this.safeRange * 2);
+      this.consecutiveSuccesses = 0;
+      logger.info(`Increasing getLogs range to ${this.safeRange} blocks`);
+    }
+  }
+}
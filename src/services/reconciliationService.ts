@@ -0,0 +1,398 @@
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import config from '../config';
+import redisClient from '../database/redis';
+import logger from '../utils/logger';
+import blockchainService from './blockchainService';
+import issuerService from './issuerService';
+import { detectIssuerDrift } from '../utils/issuerDrift';
+import { acquireLock, renewLock, releaseLock } from '../utils/redisLock';
+import { IssuerData, IssuerStatus } from '../types/issuer';
+import { IssuerDrift, OnchainIssuerInfo } from '../types/onchain';
+import {
+  ReconciliationRun,
+  ReconciliationRunSummary,
+  ReconciliationStatus,
+  ReconciliationTrigger
+} from '../types/reconciliation';
+
+// Lifetime of the run lock; renewed while the run makes progress
+const LOCK_TTL = 5 * 60 * 1000;
+
+// Renew the lock after this many issuers
+const LOCK_RENEW_EVERY = 50;
+
+/**
+ * Walks every known issuer, compares the cache with getIssuerInfo and reports (or
+ * repairs) drift. Runs on a schedule on the indexing instance and on demand anywhere;
+ * a Redis lock keeps replicas from running at the same time.
+ */
+export class ReconciliationService {
+  private redis: Redis;
+  private timer: NodeJS.Timeout | null = null;
+  private nextRunAt: number | null = null;
+  private current: ReconciliationRun | null = null;
+  private stopRequested: boolean = false;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  // Redis key generators
+  private getRunKey(id: string): string {
+    return `reconciliation:run:${id}`;
+  }
+
+  private getRunsKey(): string {
+    return 'reconciliation:runs';
+  }
+
+  private getLockKey(): string {
+    return 'reconciliation:lock';
+  }
+
+  /**
+   * Schedule runs every `interval` ms, counted from the start of the last stored run so
+   * restarts neither skip nor repeat a run
+   */
+  async start(): Promise<void> {
+    if (!config.reconciliation.enabled || this.timer) {
+      return;
+    }
+
+    const lastRun = await this.getLastRun();
+    const dueAt = lastRun ? lastRun.startedAt + config.reconciliation.interval : Date.now() + config.reconciliation.interval;
+    this.schedule(Math.max(0, dueAt - Date.now()));
+
+    logger.info('Scheduled full reconciliation', {
+      interval: config.reconciliation.interval,
+      autoRepair: config.reconciliation.autoRepair,
+      nextRunAt: new Date(this.nextRunAt!).toISOString()
+    });
+  }
+
+  // Stop scheduling; a run in progress ends after the issuer it is checking
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextRunAt = null;
+
+    if (this.current) {
+      this.stopRequested = true;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.nextRunAt = Date.now() + delay;
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+
+      try {
+        const summary = await this.run('scheduled', config.reconciliation.autoRepair);
+        if (!summary) {
+          logger.info('Skipped scheduled reconciliation, another run is in progress');
+        }
+      } catch (error) {
+        logger.error('Scheduled reconciliation failed:', error);
+      }
+
+      // stop() clears nextRunAt; start() may have scheduled again while we were running
+      if (this.nextRunAt !== null && !this.timer) {
+        this.schedule(config.reconciliation.interval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Start a run in the background. Returns null when a run is already in progress on
+   * this or another instance.
+   */
+  async trigger(autoRepair: boolean = config.reconciliation.autoRepair): Promise<ReconciliationRunSummary | null> {
+    const run = await this.begin('manual', autoRepair);
+    if (!run) {
+      return null;
+    }
+
+    this.execute(run).catch(error => logger.error('Reconciliation run failed:', error));
+    return this.summarize(run);
+  }
+
+  // Run to completion; null when a run is already in progress
+  async run(trigger: ReconciliationTrigger, autoRepair: boolean): Promise<ReconciliationRunSummary | null> {
+    const run = await this.begin(trigger, autoRepair);
+    if (!run) {
+      return null;
+    }
+
+    await this.execute(run);
+    return this.summarize(run);
+  }
+
+  private async begin(trigger: ReconciliationTrigger, autoRepair: boolean): Promise<ReconciliationRun | null> {
+    if (this.current) {
+      return null;
+    }
+
+    const id = randomUUID();
+    if (!(await acquireLock(this.redis, this.getLockKey(), id, LOCK_TTL))) {
+      return null;
+    }
+
+    const run: ReconciliationRun = {
+      id,
+      trigger,
+      autoRepair,
+      status: 'running',
+      startedAt: Date.now(),
+      blockNumber: 0,
+      total: 0,
+      checked: 0,
+      inSync: 0,
+      drifted: 0,
+      repaired: 0,
+      skipped: 0,
+      failed: 0,
+      issuers: []
+    };
+    this.current = run;
+    this.stopRequested = false;
+
+    try {
+      run.blockNumber = await blockchainService.getLastProcessedBlock();
+      await this.saveRun(run);
+    } catch (error) {
+      this.current = null;
+      await releaseLock(this.redis, this.getLockKey(), id);
+      throw error;
+    }
+
+    logger.info('Starting full reconciliation', { id, trigger, autoRepair, blockNumber: run.blockNumber });
+    return run;
+  }
+
+  private async execute(run: ReconciliationRun): Promise<void> {
+    try {
+      const addresses = await issuerService.listIssuerAddresses();
+      run.total = addresses.length;
+
+      for (const address of addresses) {
+        if (this.stopRequested) {
+          throw new Error('Stopped before completion');
+        }
+
+        await this.checkIssuer(run, address);
+        run.checked++;
+
+        if (run.checked % LOCK_RENEW_EVERY === 0) {
+          await renewLock(this.redis, this.getLockKey(), run.id, LOCK_TTL);
+        }
+
+        // Spread contract calls out to stay under provider rate limits
+        if (config.reconciliation.delayBetweenIssuers > 0) {
+          await new Promise(resolve => setTimeout(resolve, config.reconciliation.delayBetweenIssuers));
+        }
+      }
+
+      run.status = 'completed';
+    } catch (error) {
+      run.status = this.stopRequested ? 'cancelled' : 'failed';
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      run.completedAt = Date.now();
+      this.current = null;
+      this.stopRequested = false;
+
+      try {
+        await this.saveRun(run);
+        await this.pruneRuns();
+      } finally {
+        await releaseLock(this.redis, this.getLockKey(), run.id);
+      }
+
+      const summary = this.summarize(run);
+      if (run.status === 'completed') {
+        logger.info('Full reconciliation completed', summary);
+      } else {
+        logger.warn('Full reconciliation did not complete', summary);
+      }
+    }
+  }
+
+  private async checkIssuer(run: ReconciliationRun, address: string): Promise<void> {
+    try {
+      // Read the cache before the cursor, so events the indexer applies in between show up
+      // as a change of the issuer that makes the repair back off
+      const [cached, history] = await Promise.all([
+        issuerService.getIssuer(address),
+        issuerService.getIssuerHistory(address)
+      ]);
+      const blockNumber = await blockchainService.getLastProcessedBlock();
+
+      // Events above the cursor are mid-ingest; comparing now would report stale drift
+      if (history.some(entry => entry.blockNumber > blockNumber)) {
+        run.skipped++;
+        return;
+      }
+
+      const onchain = await blockchainService.getIssuerInfo(address, blockNumber);
+      if (onchain.registered) {
+        await issuerService.storeKeyHistory(address, onchain.activeKeyIndex, onchain.keyHistory, onchain.blockNumber);
+      }
+
+      const drift = detectIssuerDrift(cached, onchain);
+      if (drift.length === 0) {
+        run.inSync++;
+        return;
+      }
+
+      const repaired = run.autoRepair && cached ? await this.repair(cached, onchain, drift) : [];
+      if (repaired === null) {
+        // An event changed the issuer after it was compared; the next run checks it again
+        run.skipped++;
+        return;
+      }
+
+      run.drifted++;
+      if (repaired.length === 0) {
+        run.issuers.push({ address, drift, repaired });
+        return;
+      }
+
+      // Re-read so a repair that does not survive the round trip is reported, not counted
+      const remaining = detectIssuerDrift(await issuerService.getIssuer(address), onchain);
+      if (!remaining.some(item => repaired.includes(item.field))) {
+        run.repaired++;
+      }
+
+      run.issuers.push({ address, drift, repaired, remaining });
+    } catch (error) {
+      run.failed++;
+      run.issuers.push({
+        address,
+        drift: [],
+        repaired: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      logger.warn('Reconciliation check failed', { address, error });
+    }
+  }
+
+  /**
+   * Correct what the contract states unambiguously: activation, revocation, fee and
+   * registration time. Name, categories and issuers missing from the cache are only
+   * reported; a backfill restores those. Returns null when the issuer changed since `cached`
+   * was read and nothing was written.
+   */
+  private async repair(cached: IssuerData, onchain: OnchainIssuerInfo, drift: IssuerDrift[]): Promise<string[] | null> {
+    const fields = new Set(drift.map(item => item.field));
+    const changes: Parameters<typeof issuerService.applyContractState>[2] = {};
+    const repaired: string[] = [];
+
+    if (fields.has('status') || fields.has('revocationTime')) {
+      if (onchain.isActive && cached.status !== IssuerStatus.APPROVED) {
+        changes.status = IssuerStatus.APPROVED;
+        changes.updatedAt = onchain.registrationTime > 0 ? onchain.registrationTime * 1000 : cached.updatedAt;
+      } else if (!onchain.isActive && onchain.revocationTime > 0 && cached.status !== IssuerStatus.REVOKED) {
+        changes.status = IssuerStatus.REVOKED;
+        changes.updatedAt = onchain.revocationTime * 1000;
+      }
+
+      if (changes.status) {
+        repaired.push(...['status', 'revocationTime'].filter(field => fields.has(field)));
+      }
+    }
+
+    if (onchain.registered && (fields.has('feePerCategory') || changes.status === IssuerStatus.APPROVED)) {
+      changes.feePerCategory = onchain.feePerCategory;
+      if (fields.has('feePerCategory')) {
+        repaired.push('feePerCategory');
+      }
+    }
+    if (onchain.registered && (fields.has('registrationTime') || changes.status === IssuerStatus.APPROVED)) {
+      changes.registrationTime = onchain.registrationTime;
+      if (fields.has('registrationTime')) {
+        repaired.push('registrationTime');
+      }
+    }
+
+    if (repaired.length > 0) {
+      const expected = { status: cached.status, updatedAt: cached.updatedAt };
+      if (!(await issuerService.applyContractState(cached.address, expected, changes))) {
+        return null;
+      }
+    }
+
+    return repaired;
+  }
+
+  async getStatus(): Promise<ReconciliationStatus> {
+    return {
+      enabled: config.reconciliation.enabled,
+      interval: config.reconciliation.interval,
+      autoRepair: config.reconciliation.autoRepair,
+      running: this.current !== null || (await this.redis.exists(this.getLockKey())) === 1,
+      current: this.current ? this.summarize(this.current) : null,
+      lastRun: await this.getLastRun(),
+      nextRunAt: this.nextRunAt
+    };
+  }
+
+  // Summary of the most recent finished run
+  async getLastRun(): Promise<ReconciliationRunSummary | null> {
+    const ids = await this.redis.zrevrange(this.getRunsKey(), 0, -1);
+    for (const id of ids) {
+      const run = await this.getRun(id);
+      if (run && run.status !== 'running') {
+        return this.summarize(run);
+      }
+    }
+    return null;
+  }
+
+  // Recent runs, newest first
+  async listRuns(limit: number = 20): Promise<ReconciliationRunSummary[]> {
+    const ids = await this.redis.zrevrange(this.getRunsKey(), 0, limit - 1);
+    const runs = await Promise.all(ids.map(id => this.getRun(id)));
+    return runs
+      .filter((run): run is ReconciliationRun => run !== null)
+      .map(run => this.summarize(run));
+  }
+
+  async getRun(id: string): Promise<ReconciliationRun | null> {
+    if (this.current && this.current.id === id) {
+      return this.current;
+    }
+
+    const raw = await this.redis.get(this.getRunKey(id));
+    return raw ? JSON.parse(raw) as ReconciliationRun : null;
+  }
+
+  private async saveRun(run: ReconciliationRun): Promise<void> {
+    await this.redis.pipeline()
+      .set(this.getRunKey(run.id), JSON.stringify(run))
+      .zadd(this.getRunsKey(), run.startedAt, run.id)
+      .exec();
+  }
+
+  // Keep only the most recent runs
+  private async pruneRuns(): Promise<void> {
+    const stale = await this.redis.zrevrange(this.getRunsKey(), config.reconciliation.historySize, -1);
+    if (stale.length === 0) {
+      return;
+    }
+
+    await this.redis.pipeline()
+      .del(...stale.map(id => this.getRunKey(id)))
+      .zrem(this.getRunsKey(), ...stale)
+      .exec();
+  }
+
+  private summarize(run: ReconciliationRun): ReconciliationRunSummary {
+    const { issuers, ...summary } = run;
+    return summary;
+  }
+}
+
+export default new ReconciliationService();
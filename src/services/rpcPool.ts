@@ -0,0 +1,248 @@
+import { JsonRpcProvider } from 'ethers';
+import logger from '../utils/logger';
+
+export interface RpcPoolOptions {
+  crossCheck: boolean;
+  maxBlockLag: number;
+  cooldownMs: number;
+  failureThreshold: number;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  status: 'healthy' | 'degraded' | 'cooling_down';
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastBlock?: number;
+  blockLag?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  cooldownUntil?: number;
+}
+
+interface RpcEndpoint {
+  url: string;
+  provider: JsonRpcProvider;
+  latencyEma: number | null;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastBlock?: number;
+  blockLag: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  cooldownUntil: number;
+}
+
+// Weight applied to each new latency sample in the moving average
+const LATENCY_EMA_WEIGHT = 0.3;
+
+/**
+ * A pool of JSON-RPC endpoints. Requests go to the best scoring endpoint and
+ * fail over to the next one on error; endpoints that keep failing cool down.
+ */
+export class RpcEndpointPool {
+  private endpoints: RpcEndpoint[];
+  private options: RpcPoolOptions;
+
+  constructor(urls: string[], options: RpcPoolOptions) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    this.options = options;
+    this.endpoints = urls.map(url => ({
+      url,
+      provider: new JsonRpcProvider(url),
+      latencyEma: null,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      blockLag: 0,
+      cooldownUntil: 0
+    }));
+  }
+
+  /**
+   * Run a request against the best available endpoint, failing over to the others.
+   * Errors for which `shouldFailover` returns false (e.g. a contract revert or an
+   * oversized log range) are returned immediately without penalising the endpoint.
+   * With `minBlock`, endpoints last seen below that block are skipped: a lagging node
+   * answers range reads for blocks it lacks with empty results rather than an error.
+   * Endpoints whose head has not been read yet are still tried.
+   */
+  async execute<T>(
+    operation: string,
+    request: (provider: JsonRpcProvider) => Promise<T>,
+    shouldFailover: (error: unknown) => boolean = () => true,
+    minBlock?: number
+  ): Promise<T> {
+    let lastError: unknown;
+
+    const endpoints = this.getOrderedEndpoints()
+      .filter(endpoint => minBlock === undefined || endpoint.lastBlock === undefined || endpoint.lastBlock >= minBlock);
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoint has reached block ${minBlock} yet`);
+    }
+
+    for (const endpoint of endpoints) {
+      const startTime = Date.now();
+
+      try {
+        const result = await request(endpoint.provider);
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        if (!shouldFailover(error)) {
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(endpoint, error);
+        logger.warn(`RPC ${operation} failed on ${this.redactUrl(endpoint.url)}, trying next endpoint`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Current block number. With cross-checking enabled every endpoint is asked and
+   * the highest answer wins, so a lagging endpoint cannot report a stale head.
+   */
+  async getBlockNumber(): Promise<number> {
+    if (!this.options.crossCheck || this.endpoints.length === 1) {
+      return this.execute('getBlockNumber', async provider => {
+        const blockNumber = await provider.getBlockNumber();
+        const endpoint = this.endpoints.find(candidate => candidate.provider === provider);
+        if (endpoint) {
+          endpoint.lastBlock = blockNumber;
+        }
+        return blockNumber;
+      });
+    }
+
+    const available = this.getOrderedEndpoints();
+    const results = await Promise.all(available.map(async endpoint => {
+      const startTime = Date.now();
+      try {
+        const blockNumber = await endpoint.provider.getBlockNumber();
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        endpoint.lastBlock = blockNumber;
+        return blockNumber;
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+        return null;
+      }
+    }));
+
+    const blockNumbers = results.filter((blockNumber): blockNumber is number => blockNumber !== null);
+    if (blockNumbers.length === 0) {
+      throw new Error('All RPC endpoints failed to return a block number');
+    }
+
+    const head = Math.max(...blockNumbers);
+    for (const endpoint of available) {
+      if (endpoint.lastBlock !== undefined) {
+        endpoint.blockLag = head - endpoint.lastBlock;
+        if (endpoint.blockLag > this.options.maxBlockLag) {
+          logger.warn(`RPC endpoint ${this.redactUrl(endpoint.url)} is ${endpoint.blockLag} blocks behind`);
+        }
+      }
+    }
+
+    return head;
+  }
+
+  // Best scoring provider, for consumers that need a long-lived runner (e.g. contract listeners)
+  getPrimaryProvider(): JsonRpcProvider {
+    return this.getOrderedEndpoints()[0].provider;
+  }
+
+  hasAvailableEndpoint(): boolean {
+    const now = Date.now();
+    return this.endpoints.some(endpoint => endpoint.cooldownUntil <= now);
+  }
+
+  getEndpointHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+
+    return this.endpoints.map(endpoint => ({
+      url: this.redactUrl(endpoint.url),
+      status: endpoint.cooldownUntil > now
+        ? 'cooling_down'
+        : endpoint.consecutiveFailures > 0 || endpoint.blockLag > this.options.maxBlockLag
+          ? 'degraded'
+          : 'healthy',
+      latencyMs: endpoint.latencyEma === null ? null : Math.round(endpoint.latencyEma),
+      successes: endpoint.successes,
+      failures: endpoint.failures,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastBlock: endpoint.lastBlock,
+      blockLag: this.options.crossCheck ? endpoint.blockLag : undefined,
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt,
+      cooldownUntil: endpoint.cooldownUntil > now ? endpoint.cooldownUntil : undefined
+    }));
+  }
+
+  // Endpoints not cooling down, best score first; if all are cooling down, try them all
+  private getOrderedEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter(endpoint => endpoint.cooldownUntil <= now);
+    const candidates = available.length > 0 ? available : [...this.endpoints];
+
+    return candidates.sort((a, b) => this.score(a) - this.score(b));
+  }
+
+  // Lower is better: recent latency, penalised by failures and block lag
+  private score(endpoint: RpcEndpoint): number {
+    const latency = endpoint.latencyEma ?? 0;
+    const total = endpoint.successes + endpoint.failures;
+    const errorRate = total > 0 ? endpoint.failures / total : 0;
+    const lagPenalty = endpoint.blockLag > this.options.maxBlockLag ? 10000 : 0;
+
+    return latency * (1 + errorRate) + endpoint.consecutiveFailures * 1000 + lagPenalty;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.successes++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.latencyEma = endpoint.latencyEma === null
+      ? latencyMs
+      : endpoint.latencyEma * (1 - LATENCY_EMA_WEIGHT) + latencyMs * LATENCY_EMA_WEIGHT;
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: unknown): void {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    endpoint.lastErrorAt = Date.now();
+
+    if (endpoint.consecutiveFailures >= this.options.failureThreshold) {
+      endpoint.cooldownUntil = Date.now() + this.options.cooldownMs;
+      logger.warn(`RPC endpoint ${this.redactUrl(endpoint.url)} cooling down after ${endpoint.consecutiveFailures} failures`);
+    }
+  }
+
+  // Hide API keys embedded in provider URLs
+  private redactUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.length > 1 ? '/***' : '';
+      return `${parsed.protocol}//${parsed.host}${path}`;
+    } catch {
+      return url;
+    }
+  }
+
+  destroy(): void {
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+  }
+}
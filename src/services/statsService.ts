@@ -0,0 +1,195 @@
+import Redis, { ChainableCommander } from 'ioredis';
+import redisClient from '../database/redis';
+import logger from '../utils/logger';
+import { EventMetadata, IssuerEventType } from '../types/issuer';
+import {
+  EventTotals,
+  IssuerActivityStats,
+  StatsMetric,
+  StatsQueryParams,
+  StatsSeriesPoint
+} from '../types/stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default window of the time series when no `from` is given
+const DEFAULT_SERIES_DAYS = { day: 30, week: 12 * 7 };
+
+// Longest time series served, in days; older starts are clamped
+const MAX_SERIES_DAYS = 731;
+
+const EVENT_METRIC: Record<IssuerEventType, StatsMetric> = {
+  [IssuerEventType.APPLICATION_SUBMITTED]: 'submissions',
+  [IssuerEventType.APPROVED]: 'approvals',
+  [IssuerEventType.REJECTED]: 'rejections',
+  [IssuerEventType.REVOKED]: 'revocations'
+};
+
+const METRICS: StatsMetric[] = ['submissions', 'approvals', 'rejections', 'revocations'];
+
+export class StatsService {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  // Redis key generators; a prefix selects the copy written by a rebuild
+  private getTotalsKey(prefix: string = ''): string {
+    return `${prefix}stats:totals`;
+  }
+
+  private getDailyKey(metric: StatsMetric, prefix: string = ''): string {
+    return `${prefix}stats:daily:${metric}`;
+  }
+
+  private getDecisionTimesKey(prefix: string = ''): string {
+    return `${prefix}stats:decision_times`;
+  }
+
+  private toDay(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private getEventId(metadata: { txHash: string; logIndex: number }): string {
+    return `${metadata.txHash.toLowerCase()}:${metadata.logIndex}`;
+  }
+
+  /**
+   * Count an applied event. `submittedAt` is passed for approvals and rejections of a
+   * pending application so the time to decision can be recorded. `prefix` counts into the
+   * copy of the counters a rebuild writes.
+   */
+  recordEvent(
+    pipeline: ChainableCommander,
+    eventType: IssuerEventType,
+    metadata: Pick<EventMetadata, 'txHash' | 'logIndex' | 'timestamp'>,
+    submittedAt?: number,
+    prefix: string = ''
+  ): void {
+    const metric = EVENT_METRIC[eventType];
+    pipeline.hincrby(this.getTotalsKey(prefix), metric, 1);
+    pipeline.hincrby(this.getDailyKey(metric, prefix), this.toDay(metadata.timestamp), 1);
+
+    if (submittedAt !== undefined && (metric === 'approvals' || metric === 'rejections')) {
+      pipeline.zadd(
+        this.getDecisionTimesKey(prefix),
+        Math.max(0, metadata.timestamp - submittedAt),
+        this.getEventId(metadata)
+      );
+    }
+  }
+
+  // Undo recordEvent for an event dropped by a reorg
+  revertEvent(
+    pipeline: ChainableCommander,
+    eventType: IssuerEventType,
+    metadata: Pick<EventMetadata, 'txHash' | 'logIndex' | 'timestamp'>
+  ): void {
+    const metric = EVENT_METRIC[eventType];
+    pipeline.hincrby(this.getTotalsKey(), metric, -1);
+    pipeline.hincrby(this.getDailyKey(metric), this.toDay(metadata.timestamp), -1);
+    pipeline.zrem(this.getDecisionTimesKey(), this.getEventId(metadata));
+  }
+
+  // Every counter key, for rebuilding them from issuer histories
+  getKeys(prefix: string = ''): string[] {
+    return [
+      this.getTotalsKey(prefix),
+      this.getDecisionTimesKey(prefix),
+      ...METRICS.map(metric => this.getDailyKey(metric, prefix))
+    ];
+  }
+
+  async getActivityStats(params: StatsQueryParams = {}): Promise<IssuerActivityStats> {
+    try {
+      const interval = params.interval || 'day';
+      const to = params.to ?? Date.now();
+      let from = params.from ?? to - (DEFAULT_SERIES_DAYS[interval] - 1) * DAY_MS;
+      from = Math.max(from, to - (MAX_SERIES_DAYS - 1) * DAY_MS);
+
+      const [totals, decisions, series] = await Promise.all([
+        this.getTotals(),
+        this.redis.zcard(this.getDecisionTimesKey()),
+        this.getSeries(interval, from, to)
+      ]);
+
+      const decided = totals.approvals + totals.rejections;
+
+      return {
+        totals,
+        approvalRate: decided > 0 ? totals.approvals / decided : null,
+        decisions,
+        medianTimeToDecision: await this.getMedianDecisionTime(decisions),
+        series: {
+          interval,
+          from: this.toDay(from),
+          to: this.toDay(to),
+          points: series
+        }
+      };
+    } catch (error) {
+      logger.error('Error getting issuer activity stats:', error);
+      throw error;
+    }
+  }
+
+  private async getTotals(): Promise<EventTotals> {
+    const raw = await this.redis.hgetall(this.getTotalsKey());
+    const totals = {} as EventTotals;
+    for (const metric of METRICS) {
+      totals[metric] = parseInt(raw?.[metric] || '0', 10);
+    }
+    return totals;
+  }
+
+  // Decision times are kept in a sorted set, so the median is one or two ranked reads
+  private async getMedianDecisionTime(count: number): Promise<number | null> {
+    if (count === 0) {
+      return null;
+    }
+
+    const middle = Math.floor((count - 1) / 2);
+    const raw = await this.redis.zrange(this.getDecisionTimesKey(), middle, count % 2 === 0 ? middle + 1 : middle, 'WITHSCORES');
+    const scores = raw.filter((_, i) => i % 2 === 1).map(Number);
+
+    return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  }
+
+  private async getSeries(interval: 'day' | 'week', from: number, to: number): Promise<StatsSeriesPoint[]> {
+    let start = Date.parse(this.toDay(from));
+    if (interval === 'week') {
+      // Weeks start on Monday (UTC)
+      start -= ((new Date(start).getUTCDay() + 6) % 7) * DAY_MS;
+    }
+    const end = Date.parse(this.toDay(to));
+
+    const days: string[] = [];
+    for (let day = start; day <= end; day += DAY_MS) {
+      days.push(this.toDay(day));
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (const metric of METRICS) {
+      pipeline.hmget(this.getDailyKey(metric), ...days);
+    }
+    const results = (await pipeline.exec()) || [];
+
+    const points: StatsSeriesPoint[] = [];
+    days.forEach((day, i) => {
+      if (interval === 'day' || i % 7 === 0) {
+        points.push({ period: day, submissions: 0, approvals: 0, rejections: 0, revocations: 0 });
+      }
+
+      const point = points[points.length - 1];
+      METRICS.forEach((metric, m) => {
+        const values = (results[m]?.[1] || []) as (string | null)[];
+        point[metric] += parseInt(values[i] || '0', 10);
+      });
+    });
+
+    return points;
+  }
+}
+
+export default new StatsService();
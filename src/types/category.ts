@@ -0,0 +1,21 @@
+import { IssuerStatus } from './issuer';
+
+export interface CategoryDefinition {
+  id: string;
+  label: string;
+  description?: string;
+  updatedAt: number;
+}
+
+export interface DecodedCategory {
+  id: string;
+  label: string | null;
+  description?: string;
+  source: 'registry' | 'utf8' | 'unknown';
+}
+
+export type CategoryStatusCounts = Record<IssuerStatus, number> & { total: number };
+
+export interface CategorySummary extends DecodedCategory {
+  counts: CategoryStatusCounts;
+}
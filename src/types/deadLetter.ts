@@ -0,0 +1,39 @@
+export interface RawEventLog {
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  index: number;
+  topics: ReadonlyArray<string>;
+  data: string;
+}
+
+export enum DeadLetterStatus {
+  RETRYING = 'retrying',
+  EXHAUSTED = 'exhausted'
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  eventName?: string;
+  log: RawEventLog;
+  error: string;
+  attempts: number;
+  status: DeadLetterStatus;
+  firstFailedAt: number;
+  lastFailedAt: number;
+  nextRetryAt?: number;
+}
+
+export interface DeadLetterQueryParams {
+  status?: DeadLetterStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DeadLetterListResponse {
+  entries: DeadLetterEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -1,7 +1,11 @@
+import { DecodedCategory } from './category';
+import { OnchainKeyInfo } from './onchain';
+
 export interface IssuerData {
   address: string;
   name: string;
   requestedCategories: string[];
+  categories?: DecodedCategory[];
   proposedFixedFee: string;
   publicKey: string;
   stakeAmount: string;
@@ -12,8 +16,11 @@ export interface IssuerData {
   updatedAt: number;
   txHash: string;
   blockNumber: number;
-  feePerCategory?: number;
+  feePerCategory?: string;
   registrationTime?: number;
+  decidedBy?: string;
+  isFinal?: boolean;
+  unconfirmedChange?: UnconfirmedIssuerChange;
 }
 
 export enum IssuerStatus {
@@ -37,8 +44,10 @@ export interface IssuerApprovedEvent {
   issuer: string;
   attestationUID: string;
   approveFixedFee: boolean;
-  feePerCategory: number;
+  feePerCategory: string;
   registrationTime : number;
+  activeKeyIndex?: number;
+  keyHistory?: OnchainKeyInfo[];
 }
 
 export interface IssuerRevokedEvent {
@@ -55,13 +64,102 @@ export interface IssuerRejectedEvent {
 export interface EventMetadata {
   txHash: string;
   blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+}
+
+export enum IssuerEventType {
+  APPLICATION_SUBMITTED = 'IssuerApplicationSubmitted',
+  APPROVED = 'IssuerApproved',
+  REJECTED = 'IssuerRejected',
+  REVOKED = 'IssuerRevoked'
+}
+
+export interface IssuerHistoryEntry {
+  event: IssuerEventType;
+  status: IssuerStatus;
+  caller?: string;
+  attestationUID?: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface UnconfirmedIssuerChange {
+  event: IssuerEventType;
+  status: IssuerStatus;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
   timestamp: number;
 }
 
+export interface IssuerJournalEntry {
+  issuer: string;
+  txHash: string;
+  logIndex: number;
+  previous: Record<string, string> | null;
+}
+
+export interface IssuerFilters {
+  category?: string;
+  minStakeAmount?: string;
+  maxStakeAmount?: string;
+  minProposedFixedFee?: string;
+  maxProposedFixedFee?: string;
+  submittedFrom?: number;
+  submittedTo?: number;
+  updatedFrom?: number;
+  updatedTo?: number;
+  approveFixedFee?: boolean;
+  fromBlock?: number;
+  toBlock?: number;
+  caller?: string;
+}
+
+export enum IssuerSortField {
+  SUBMITTED_AT = 'submittedAt',
+  UPDATED_AT = 'updatedAt',
+  NAME = 'name',
+  STAKE_AMOUNT = 'stakeAmount',
+  PROPOSED_FIXED_FEE = 'proposedFixedFee',
+  FEE_PER_CATEGORY = 'feePerCategory',
+  BLOCK_NUMBER = 'blockNumber'
+}
+
+export type SortOrder = 'asc' | 'desc';
+
 export interface IssuerQueryParams {
   status?: IssuerStatus;
   limit?: number;
   offset?: number;
+  cursor?: string;
+  filters?: IssuerFilters;
+  sort?: IssuerSortField;
+  order?: SortOrder;
+}
+
+export interface IssuerSearchParams {
+  q: string;
+  status?: IssuerStatus;
+  limit?: number;
+}
+
+export interface IssuerSearchResult {
+  issuer: IssuerData;
+  score: number;
+  matchedOn: 'name' | 'address';
+}
+
+export type IssuerProjection = 'full' | 'status';
+
+// Status-only view of an issuer for batch lookups
+export interface IssuerStatusSummary {
+  address: string;
+  status: IssuerStatus;
+  updatedAt: number;
+  isFinal: boolean;
 }
 
 export interface IssuerListResponse {
@@ -69,4 +167,36 @@ export interface IssuerListResponse {
   total: number;
   limit: number;
   offset: number;
-}
\ No newline at end of file
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface IssuerExportParams {
+  status?: IssuerStatus;
+  filters?: IssuerFilters;
+}
+
+// One exported issuer; amounts stay decimal strings so uint256 values are exact
+export interface IssuerExportRow {
+  address: string;
+  name: string;
+  status: IssuerStatus;
+  categories: string[];
+  categoryIds: string[];
+  stakeAmount: string;
+  proposedFixedFee: string;
+  feePerCategory: string | null;
+  approveFixedFee: boolean | null;
+  attestationUID: string | null;
+  decidedBy: string | null;
+  submittedAt: string | null;
+  approvedAt: string | null;
+  rejectedAt: string | null;
+  revokedAt: string | null;
+  updatedAt: string | null;
+  registrationTime: string | null;
+  blockNumber: number;
+  txHash: string;
+  publicKey: string;
+}
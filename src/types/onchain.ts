@@ -0,0 +1,79 @@
+import { IssuerData } from './issuer';
+
+// One entry of the contract's keyHistory; times are unix seconds as on chain
+export interface OnchainKeyInfo {
+  keyId: string;
+  validFrom: number;
+  validUntil: number;
+  isActive: boolean;
+  publicKey: string;
+  provider: string;
+}
+
+// getIssuerInfo normalized to JSON; uint256 amounts are decimal strings
+export interface OnchainIssuerInfo {
+  address: string;
+  // false when the registry holds no entry for the address (zero issuer field)
+  registered: boolean;
+  isActive: boolean;
+  feePerCategory: string;
+  activeKeyIndex: number;
+  registrationTime: number;
+  revocationTime: number;
+  name: string;
+  categories: string[];
+  keyHistory: OnchainKeyInfo[];
+  blockNumber: number;
+}
+
+// Key history persisted per issuer, refreshed from getIssuerInfo
+export interface StoredKeyHistory {
+  activeKeyIndex: number;
+  keys: OnchainKeyInfo[];
+  // Block the history was read at; null when read at an unpinned head during event decoding
+  blockNumber: number | null;
+  refreshedAt: number;
+}
+
+export interface IssuerKeyEntry {
+  index: number;
+  keyId: string;
+  publicKey: string;
+  provider: string;
+  isActive: boolean;
+  // The key at activeKeyIndex
+  isCurrent: boolean;
+  validFrom: string;
+  // null when the key has no end of validity
+  validUntil: string | null;
+  // Set when the request asked which key was valid at a given time
+  validAtRequestedTime?: boolean;
+}
+
+export interface IssuerKeyView {
+  address: string;
+  // Key submitted with the application
+  applicationKey: string | null;
+  activeKeyIndex: number | null;
+  blockNumber: number | null;
+  refreshedAt: string | null;
+  keys: IssuerKeyEntry[];
+}
+
+export interface IssuerDrift {
+  field: string;
+  cached: unknown;
+  onchain: unknown;
+  message: string;
+}
+
+export interface OnchainIssuerView {
+  address: string;
+  blockNumber: number;
+  // Indexer cursor: events up to this block are reflected in the cached copy
+  indexedThrough: number;
+  onchain: OnchainIssuerInfo;
+  cached: IssuerData | null;
+  inSync: boolean;
+  drift: IssuerDrift[];
+}
@@ -0,0 +1,51 @@
+import { IssuerDrift } from './onchain';
+
+export type ReconciliationTrigger = 'scheduled' | 'manual';
+
+export type ReconciliationRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReconciliationIssuerReport {
+  address: string;
+  drift: IssuerDrift[];
+  // Drift fields that were corrected from contract state
+  repaired: string[];
+  // Drift still present when the issuer was re-read after the repair
+  remaining?: IssuerDrift[];
+  error?: string;
+}
+
+export interface ReconciliationRunSummary {
+  id: string;
+  trigger: ReconciliationTrigger;
+  autoRepair: boolean;
+  status: ReconciliationRunStatus;
+  startedAt: number;
+  completedAt?: number;
+  // Block the contract was read at (the indexer cursor when the run started)
+  blockNumber: number;
+  total: number;
+  checked: number;
+  inSync: number;
+  drifted: number;
+  repaired: number;
+  // Issuers with events above the indexer cursor, or changed by an event while being
+  // repaired, left for the next run
+  skipped: number;
+  failed: number;
+  error?: string;
+}
+
+export interface ReconciliationRun extends ReconciliationRunSummary {
+  // Only issuers with drift or a failed check are listed
+  issuers: ReconciliationIssuerReport[];
+}
+
+export interface ReconciliationStatus {
+  enabled: boolean;
+  interval: number;
+  autoRepair: boolean;
+  running: boolean;
+  current: ReconciliationRunSummary | null;
+  lastRun: ReconciliationRunSummary | null;
+  nextRunAt: number | null;
+}
@@ -0,0 +1,31 @@
+export type StatsInterval = 'day' | 'week';
+
+export type StatsMetric = 'submissions' | 'approvals' | 'rejections' | 'revocations';
+
+export type EventTotals = Record<StatsMetric, number>;
+
+export interface StatsQueryParams {
+  interval?: StatsInterval;
+  from?: number;
+  to?: number;
+}
+
+export interface StatsSeriesPoint extends EventTotals {
+  // UTC date of the day, or of the Monday starting the week
+  period: string;
+}
+
+export interface IssuerActivityStats {
+  totals: EventTotals;
+  // Approvals over approvals plus rejections; null until the first decision
+  approvalRate: number | null;
+  decisions: number;
+  // Median of updatedAt - submittedAt over approvals and rejections, in ms
+  medianTimeToDecision: number | null;
+  series: {
+    interval: StatsInterval;
+    from: string;
+    to: string;
+    points: StatsSeriesPoint[];
+  };
+}
@@ -0,0 +1,51 @@
+import { IssuerSortField, SortOrder } from '../types/issuer';
+
+// Position in a sorted listing: the sort value and member of a boundary item
+export interface PageCursor {
+  score: number | string | null;
+  member: string;
+  direction: 'next' | 'prev';
+  // Ordering the cursor was issued for; it only points at a position within that order
+  sort: IssuerSortField;
+  order: SortOrder;
+}
+
+// Encode a cursor as an opaque URL-safe token
+export const encodeCursor = (cursor: PageCursor): string => {
+  return Buffer.from(JSON.stringify([cursor.score, cursor.member, cursor.direction, cursor.sort, cursor.order]))
+    .toString('base64url');
+};
+
+// Decode a cursor token; returns null for anything that was not produced by encodeCursor
+export const decodeCursor = (token: string): PageCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 5) {
+      return null;
+    }
+
+    const [score, member, direction, sort, order] = decoded;
+    const validScore = score === null || typeof score === 'string' || (typeof score === 'number' && Number.isFinite(score));
+    if (!validScore || typeof member !== 'string') {
+      return null;
+    }
+    if (direction !== 'next' && direction !== 'prev') {
+      return null;
+    }
+    if (!(Object.values(IssuerSortField) as string[]).includes(sort) || (order !== 'asc' && order !== 'desc')) {
+      return null;
+    }
+
+    // Name listings page on the name; the others on a numeric score, null past the last value
+    if ((sort === IssuerSortField.NAME) !== (typeof score === 'string')) {
+      return null;
+    }
+    if (sort === IssuerSortField.UPDATED_AT && score === null) {
+      return null;
+    }
+
+    return { score, member, direction, sort, order };
+  } catch {
+    return null;
+  }
+};
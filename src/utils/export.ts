@@ -0,0 +1,54 @@
+import { IssuerExportRow } from '../types/issuer';
+
+// Column order of exported issuers; part of the export format, so only ever append
+export const ISSUER_EXPORT_COLUMNS: (keyof IssuerExportRow)[] = [
+  'address',
+  'name',
+  'status',
+  'categories',
+  'categoryIds',
+  'stakeAmount',
+  'proposedFixedFee',
+  'feePerCategory',
+  'approveFixedFee',
+  'attestationUID',
+  'decidedBy',
+  'submittedAt',
+  'approvedAt',
+  'rejectedAt',
+  'revokedAt',
+  'updatedAt',
+  'registrationTime',
+  'blockNumber',
+  'txHash',
+  'publicKey'
+];
+
+// Quote a CSV field per RFC 4180; text a spreadsheet would run as a formula is prefixed with '
+const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = Array.isArray(value) ? value.join(';') : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: unknown[]): string => {
+  return values.map(escapeCsvField).join(',') + '\r\n';
+};
+
+export const formatIssuerCsvHeader = (): string => toCsvLine(ISSUER_EXPORT_COLUMNS);
+
+export const formatIssuerCsvRow = (row: IssuerExportRow): string => {
+  return toCsvLine(ISSUER_EXPORT_COLUMNS.map(column => row[column]));
+};
+
+// NDJSON rows list their keys in the same order as the CSV columns
+export const formatIssuerNdjsonRow = (row: IssuerExportRow): string => {
+  return JSON.stringify(Object.fromEntries(ISSUER_EXPORT_COLUMNS.map(column => [column, row[column]]))) + '\n';
+};
@@ -0,0 +1,91 @@
+import { IssuerData, IssuerStatus } from '../types/issuer';
+import { IssuerDrift, OnchainIssuerInfo } from '../types/onchain';
+
+// Compare the cached issuer with the live registry entry, field by field
+export const detectIssuerDrift = (cached: IssuerData | null, onchain: OnchainIssuerInfo): IssuerDrift[] => {
+  const drift: IssuerDrift[] = [];
+
+  if (!cached) {
+    if (onchain.registered) {
+      drift.push({
+        field: 'issuer',
+        cached: null,
+        onchain: onchain.address,
+        message: 'Issuer is registered on chain but missing from the cache'
+      });
+    }
+    return drift;
+  }
+
+  // Status against isActive/revocationTime
+  const expectActive = cached.status === IssuerStatus.APPROVED;
+  if (onchain.isActive !== expectActive) {
+    drift.push({
+      field: 'status',
+      cached: cached.status,
+      onchain: { isActive: onchain.isActive, revocationTime: onchain.revocationTime },
+      message: `Cached status is ${cached.status} but isActive=${onchain.isActive}`
+    });
+  }
+  if (cached.status === IssuerStatus.REVOKED && onchain.registered && onchain.revocationTime === 0) {
+    drift.push({
+      field: 'revocationTime',
+      cached: cached.status,
+      onchain: onchain.revocationTime,
+      message: 'Cached status is revoked but revocationTime is not set'
+    });
+  }
+  if (cached.status === IssuerStatus.APPROVED && onchain.revocationTime > 0) {
+    drift.push({
+      field: 'revocationTime',
+      cached: cached.status,
+      onchain: onchain.revocationTime,
+      message: `Cached status is approved but the issuer was revoked at ${onchain.revocationTime}`
+    });
+  }
+
+  // Pending and rejected applications have no registry entry to compare against
+  if (!onchain.registered) {
+    return drift;
+  }
+
+  if (cached.name !== onchain.name) {
+    drift.push({
+      field: 'name',
+      cached: cached.name,
+      onchain: onchain.name,
+      message: 'Name differs'
+    });
+  }
+
+  const cachedCategories = [...new Set(cached.requestedCategories.map(category => category.toLowerCase()))].sort();
+  const onchainCategories = [...new Set(onchain.categories.map(category => category.toLowerCase()))].sort();
+  if (cachedCategories.join(',') !== onchainCategories.join(',')) {
+    drift.push({
+      field: 'categories',
+      cached: cachedCategories,
+      onchain: onchainCategories,
+      message: 'Categories differ'
+    });
+  }
+
+  // Fee and registration time are only cached once the issuer has been approved
+  if (cached.feePerCategory !== undefined && cached.feePerCategory !== onchain.feePerCategory) {
+    drift.push({
+      field: 'feePerCategory',
+      cached: cached.feePerCategory,
+      onchain: onchain.feePerCategory,
+      message: 'Fee per category differs'
+    });
+  }
+  if (cached.registrationTime !== undefined && cached.registrationTime !== onchain.registrationTime) {
+    drift.push({
+      field: 'registrationTime',
+      cached: cached.registrationTime,
+      onchain: onchain.registrationTime,
+      message: 'Registration time differs'
+    });
+  }
+
+  return drift;
+};
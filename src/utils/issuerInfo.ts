@@ -0,0 +1,30 @@
+import { Result, ZeroAddress } from 'ethers';
+import { OnchainIssuerInfo, OnchainKeyInfo } from '../types/onchain';
+
+// Convert the keyHistory tuples returned by getIssuerInfo
+export const normalizeKeyHistory = (keyHistory: Result | any[]): OnchainKeyInfo[] => {
+  return [...keyHistory].map((key: any) => ({
+    keyId: key.keyId,
+    validFrom: Number(key.validFrom),
+    validUntil: Number(key.validUntil),
+    isActive: key.isActive,
+    publicKey: key.publicKey,
+    provider: key.provider
+  }));
+};
+
+// Convert the getIssuerInfo struct to JSON; uint256 amounts become decimal strings
+export const normalizeIssuerInfo = (address: string, info: any): Omit<OnchainIssuerInfo, 'blockNumber'> => {
+  return {
+    address: address.toLowerCase(),
+    registered: info.issuer !== ZeroAddress,
+    isActive: info.isActive,
+    feePerCategory: info.feePerCategory.toString(),
+    activeKeyIndex: Number(info.activeKeyIndex),
+    registrationTime: Number(info.registrationTime),
+    revocationTime: Number(info.revocationTime),
+    name: info.name,
+    categories: [...info.categories].map((category: string) => category.toLowerCase()),
+    keyHistory: normalizeKeyHistory(info.keyHistory)
+  };
+};
@@ -0,0 +1,30 @@
+import Redis from 'ioredis';
+
+// Extend the lock only while we still own it
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+// Delete the lock only while we still own it
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+// Take the lock if nobody holds it; `token` identifies the owner for renew and release
+export const acquireLock = async (redis: Redis, key: string, token: string, ttlMs: number): Promise<boolean> => {
+  return (await redis.set(key, token, 'PX', ttlMs, 'NX')) === 'OK';
+};
+
+// Extend the lock; false when it expired or another owner has taken it
+export const renewLock = async (redis: Redis, key: string, token: string, ttlMs: number): Promise<boolean> => {
+  return (await redis.eval(RENEW_SCRIPT, 1, key, token, ttlMs)) === 1;
+};
+
+// Release the lock unless it already passed to another owner
+export const releaseLock = async (redis: Redis, key: string, token: string): Promise<boolean> => {
+  return (await redis.eval(RELEASE_SCRIPT, 1, key, token)) === 1;
+};